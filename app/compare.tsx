@@ -0,0 +1,714 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  useWindowDimensions,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Feather } from '@expo/vector-icons';
+import { StatusBar } from 'expo-status-bar';
+import { DEFAULT_SETTINGS } from '@/constants/settings';
+import { AppSettings } from '@/types/settings';
+import { Comparison, CompareResult } from '@/types/compare';
+import { VeniceChatMessage, VeniceModel, VeniceUsage } from '@/types/venice';
+import { loadStoredSettings } from '@/utils/settingsStorage';
+import { buildSamplingParams, extractThinkingBlocks } from '@/utils/chatRequest';
+import { estimatePromptTokens, getContextBudget } from '@/utils/contextBudget';
+import {
+  MAX_COMPARE_MODELS,
+  createComparisonId,
+  loadComparisons,
+  persistComparisons,
+  upsertComparison,
+} from '@/utils/compareStorage';
+import { chatCost, formatUsd } from '@/utils/pricing';
+import { confirmSpend, recordUsage } from '@/utils/usageLedger';
+import { veniceClient } from '@/utils/veniceClient';
+import { toMessageError } from '@/utils/veniceErrors';
+import MarkdownView from '@/components/MarkdownView';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  red: '#FF4757',
+  redLight: 'rgba(255, 71, 87, 0.15)',
+  blanc: '#FFFFFF',
+  noir: '#0C0C0E',
+  surface: '#141416',
+  surfaceHover: '#1C1C1F',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  textDim: '#48484A',
+  border: 'rgba(255, 255, 255, 0.06)',
+  borderAccent: 'rgba(255, 71, 87, 0.3)',
+};
+
+const MIN_COLUMN_WIDTH = 280;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+export default function CompareScreen() {
+  const router = useRouter();
+  const { width } = useWindowDimensions();
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [models, setModels] = useState<VeniceModel[]>([]);
+  const [loadingModels, setLoadingModels] = useState(true);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [prompt, setPrompt] = useState('');
+  const [current, setCurrent] = useState<Comparison | null>(null);
+  const [history, setHistory] = useState<Comparison[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [running, setRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    loadStoredSettings().then(stored => {
+      setSettings(stored);
+      setSelected(prev => (prev.length ? prev : [stored.model]));
+    });
+    loadComparisons().then(setHistory);
+    veniceClient
+      .listModels()
+      .then(setModels)
+      .catch(e => console.error('Failed to load models:', e))
+      .finally(() => setLoadingModels(false));
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  const getModelName = (id: string) => models.find(m => m.id === id)?.model_spec?.name || id;
+
+  const toggleModel = (id: string) => {
+    setSelected(prev => {
+      if (prev.includes(id)) return prev.filter(m => m !== id);
+      return prev.length >= MAX_COMPARE_MODELS ? prev : [...prev, id];
+    });
+  };
+
+  const saveComparison = (comparison: Comparison) => {
+    setHistory(prev => {
+      const next = upsertComparison(prev, comparison);
+      persistComparisons(next);
+      return next;
+    });
+  };
+
+  // Streams one model's answer into its column and resolves with the finished result.
+  const streamColumn = async (
+    comparisonId: string,
+    modelId: string,
+    messages: VeniceChatMessage[],
+    signal: AbortSignal
+  ): Promise<CompareResult> => {
+    const model = models.find(m => m.id === modelId);
+    // Only touches the comparison on screen if it's still this one.
+    const update = (patch: Partial<CompareResult>) =>
+      setCurrent(prev => prev?.id !== comparisonId ? prev : {
+        ...prev,
+        results: prev.results.map(r => (r.model === modelId ? { ...r, ...patch } : r)),
+      });
+
+    const startedAt = Date.now();
+    let firstTokenAt: number | undefined;
+    let content = '';
+    let reasoning = '';
+    let approxTokens = 0;
+    let usage: VeniceUsage | undefined;
+
+    try {
+      const stream = veniceClient.streamChat(
+        {
+          model: modelId,
+          messages,
+          venice_parameters: {
+            include_venice_system_prompt: settings.includeVeniceSystemPrompt,
+            ...(settings.stripThinking ? { strip_thinking: true } : {}),
+            ...(settings.disableThinking ? { disable_thinking: true } : {}),
+          },
+          ...buildSamplingParams(settings, model),
+        },
+        { signal }
+      );
+      for await (const delta of stream) {
+        if (delta.type === 'usage') {
+          usage = delta.usage;
+          continue;
+        }
+        if (delta.type !== 'content' && delta.type !== 'reasoning') continue;
+
+        firstTokenAt ??= Date.now();
+        if (delta.type === 'reasoning') {
+          reasoning += delta.text;
+        } else {
+          content += delta.text;
+          approxTokens += Math.ceil(delta.text.length / 4);
+        }
+        const generating = (Date.now() - firstTokenAt) / 1000;
+        update({
+          content,
+          reasoning: reasoning || undefined,
+          metrics: {
+            tokensPerSecond: generating > 0 ? round1(approxTokens / generating) : undefined,
+            totalTokens: approxTokens,
+            firstTokenTime: round1((firstTokenAt - startedAt) / 1000),
+          },
+        });
+      }
+
+      const extracted = extractThinkingBlocks(content);
+      if (extracted.reasoning) {
+        reasoning = [reasoning, extracted.reasoning].filter(Boolean).join('\n\n');
+        content = extracted.content;
+      }
+
+      const finishedAt = Date.now();
+      const outputTokens = usage?.completion_tokens ?? approxTokens;
+      const generating = firstTokenAt ? (finishedAt - firstTokenAt) / 1000 : 0;
+      const cost = chatCost(model, usage?.prompt_tokens, usage?.completion_tokens);
+      recordUsage({
+        kind: 'compare',
+        model: modelId,
+        inputTokens: usage?.prompt_tokens,
+        outputTokens,
+        costUsd: cost,
+      });
+
+      const result: CompareResult = {
+        model: modelId,
+        content: content || 'No response received.',
+        reasoning: reasoning || undefined,
+        metrics: {
+          tokensPerSecond: generating > 0 ? round1(outputTokens / generating) : undefined,
+          totalTokens: usage?.total_tokens ?? approxTokens,
+          inputTokens: usage?.prompt_tokens,
+          outputTokens,
+          firstTokenTime: firstTokenAt ? round1((firstTokenAt - startedAt) / 1000) : undefined,
+          responseTime: round1((finishedAt - startedAt) / 1000),
+          cost: cost ? Math.round(cost * 10000) / 10000 : undefined,
+        },
+      };
+      update({ ...result, isStreaming: false });
+      return result;
+    } catch (e: any) {
+      const result: CompareResult = e?.name === 'AbortError'
+        ? { model: modelId, content: content || 'Request cancelled.', reasoning: reasoning || undefined }
+        : { model: modelId, content, reasoning: reasoning || undefined, error: toMessageError(e) };
+      update({ ...result, isStreaming: false });
+      return result;
+    }
+  };
+
+  const runComparison = async () => {
+    const text = prompt.trim();
+    if (!text || selected.length < 2 || running) return;
+
+    const messages: VeniceChatMessage[] = [{ role: 'user', content: text }];
+    const estimate = selected.reduce((sum, id) => {
+      const model = models.find(m => m.id === id);
+      return sum + (chatCost(model, estimatePromptTokens(messages), getContextBudget(settings, model).reserved) ?? 0);
+    }, 0);
+    const held = await confirmSpend(settings, estimate);
+    if (held) {
+      if (Platform.OS === 'web') {
+        if (typeof window !== 'undefined') window.alert(held);
+      } else {
+        Alert.alert('Spending cap reached', held);
+      }
+      return;
+    }
+
+    const comparison: Comparison = {
+      id: createComparisonId(),
+      prompt: text,
+      createdAt: Date.now(),
+      results: selected.map(model => ({ model, content: '', isStreaming: true })),
+    };
+    setCurrent(comparison);
+    setShowHistory(false);
+    setRunning(true);
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    try {
+      const results = await Promise.all(selected.map(id => streamColumn(comparison.id, id, messages, controller.signal)));
+      const finished = { ...comparison, results };
+      setCurrent(prev => (prev?.id === finished.id ? finished : prev));
+      saveComparison(finished);
+    } finally {
+      setRunning(false);
+      controllerRef.current = null;
+    }
+  };
+
+  const vote = (modelId: string) => {
+    if (!current || running) return;
+    const next = { ...current, winner: current.winner === modelId ? undefined : modelId };
+    setCurrent(next);
+    saveComparison(next);
+  };
+
+  const openComparison = (comparison: Comparison) => {
+    setCurrent(comparison);
+    setPrompt(comparison.prompt);
+    setSelected(comparison.results.map(r => r.model));
+    setShowHistory(false);
+  };
+
+  const deleteComparison = (id: string) => {
+    setHistory(prev => {
+      const next = prev.filter(c => c.id !== id);
+      persistComparisons(next);
+      return next;
+    });
+    if (current?.id === id) setCurrent(null);
+  };
+
+  // Wins per model over every saved comparison, most first.
+  const leaderboard = useMemo(() => {
+    const wins = new Map<string, number>();
+    for (const c of history) if (c.winner) wins.set(c.winner, (wins.get(c.winner) ?? 0) + 1);
+    return [...wins.entries()].sort((a, b) => b[1] - a[1]);
+  }, [history]);
+
+  const columnCount = current?.results.length ?? 0;
+  const columnWidth = Math.max(MIN_COLUMN_WIDTH, (width - 32 - (columnCount - 1) * 12) / Math.max(columnCount, 1));
+  const canRun = !!prompt.trim() && selected.length >= 2 && !running;
+
+  const renderColumn = (result: CompareResult) => {
+    const isWinner = current?.winner === result.model;
+    const m = result.metrics;
+    return (
+      <View key={result.model} style={[styles.column, { width: columnWidth }, isWinner && styles.columnWinner]}>
+        <View style={styles.columnHeader}>
+          <Text style={styles.columnTitle} numberOfLines={1}>{getModelName(result.model)}</Text>
+          {!result.isStreaming && !running && (
+            <TouchableOpacity
+              onPress={() => vote(result.model)}
+              style={[styles.voteBtn, isWinner && styles.voteBtnActive]}
+              accessibilityLabel={isWinner ? 'Remove vote' : 'Vote for this answer'}
+            >
+              <Feather name="award" size={13} color={isWinner ? THEME.red : THEME.textSecondary} />
+              <Text style={[styles.voteText, isWinner && styles.voteTextActive]}>{isWinner ? 'Winner' : 'Vote'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {m && (
+          <Text style={styles.metrics}>
+            {[
+              m.tokensPerSecond !== undefined && `${m.tokensPerSecond} tok/s`,
+              m.firstTokenTime !== undefined && `${m.firstTokenTime}s first token`,
+              m.responseTime !== undefined && `${m.responseTime}s total`,
+              m.cost !== undefined && formatUsd(m.cost),
+            ].filter(Boolean).join(' · ')}
+          </Text>
+        )}
+        <ScrollView style={styles.columnBody} nestedScrollEnabled>
+          {result.isStreaming && !result.content ? (
+            <ActivityIndicator size="small" color={THEME.red} style={styles.columnSpinner} />
+          ) : result.content ? (
+            <MarkdownView content={result.content} streaming={result.isStreaming} textStyle={styles.answerText} />
+          ) : null}
+          {result.error && (
+            <View style={styles.errorBox}>
+              <Feather name="alert-triangle" size={13} color={THEME.red} />
+              <Text style={styles.errorText}>{result.error.title}: {result.error.message}</Text>
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="light" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerBtn}>
+          <Feather name="arrow-left" size={20} color={THEME.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Compare</Text>
+        <TouchableOpacity onPress={() => setShowHistory(v => !v)} style={styles.headerBtn} accessibilityLabel="Saved comparisons">
+          <Feather name="clock" size={18} color={showHistory ? THEME.red : THEME.textSecondary} />
+        </TouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.flex}>
+        {showHistory ? (
+          <ScrollView style={styles.flex} contentContainerStyle={styles.historyList}>
+            {leaderboard.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.sectionTitle}>Wins</Text>
+                {leaderboard.map(([model, wins]) => (
+                  <View key={model} style={styles.leaderRow}>
+                    <Text style={styles.leaderName} numberOfLines={1}>{getModelName(model)}</Text>
+                    <Text style={styles.leaderWins}>{wins}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+            {history.length === 0 ? (
+              <Text style={styles.emptyText}>Saved comparisons show up here.</Text>
+            ) : history.map(c => (
+              <TouchableOpacity key={c.id} onPress={() => openComparison(c)} disabled={running} style={styles.card}>
+                <View style={styles.historyRow}>
+                  <View style={styles.flex}>
+                    <Text style={styles.historyPrompt} numberOfLines={2}>{c.prompt}</Text>
+                    <Text style={styles.historyMeta} numberOfLines={1}>
+                      {new Date(c.createdAt).toLocaleDateString()} · {c.results.map(r => getModelName(r.model)).join(' vs ')}
+                    </Text>
+                    {c.winner && (
+                      <Text style={styles.historyWinner} numberOfLines={1}>Winner: {getModelName(c.winner)}</Text>
+                    )}
+                  </View>
+                  <TouchableOpacity onPress={() => deleteComparison(c.id)} style={styles.headerBtn} accessibilityLabel="Delete comparison">
+                    <Feather name="trash-2" size={15} color={THEME.textMuted} />
+                  </TouchableOpacity>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        ) : (
+          <View style={styles.flex}>
+            {/* Model selection */}
+            <View style={styles.modelBar}>
+              <Text style={styles.modelBarLabel}>
+                Models {selected.length}/{MAX_COMPARE_MODELS}
+              </Text>
+              {loadingModels ? (
+                <ActivityIndicator size="small" color={THEME.red} />
+              ) : (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.modelChips}>
+                  {models.map(m => {
+                    const active = selected.includes(m.id);
+                    const full = !active && selected.length >= MAX_COMPARE_MODELS;
+                    return (
+                      <TouchableOpacity
+                        key={m.id}
+                        onPress={() => toggleModel(m.id)}
+                        disabled={running || full}
+                        style={[styles.modelChip, active && styles.modelChipActive, full && styles.disabled]}
+                      >
+                        <Text style={[styles.modelChipText, active && styles.modelChipTextActive]} numberOfLines={1}>
+                          {m.model_spec?.name || m.id}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              )}
+            </View>
+
+            {/* Columns */}
+            {current ? (
+              <ScrollView horizontal style={styles.flex} contentContainerStyle={styles.columns}>
+                {current.results.map(renderColumn)}
+              </ScrollView>
+            ) : (
+              <View style={styles.empty}>
+                <Feather name="columns" size={28} color={THEME.textDim} />
+                <Text style={styles.emptyText}>
+                  Pick two to {MAX_COMPARE_MODELS} models and send one prompt to all of them.
+                </Text>
+              </View>
+            )}
+
+            {/* Composer */}
+            <View style={styles.composer}>
+              <View style={styles.composerInner}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Prompt to compare..."
+                  placeholderTextColor={THEME.textMuted}
+                  value={prompt}
+                  onChangeText={setPrompt}
+                  multiline
+                  editable={!running}
+                />
+                {running ? (
+                  <TouchableOpacity onPress={() => controllerRef.current?.abort()} style={styles.sendBtn} accessibilityLabel="Stop">
+                    <Feather name="square" size={14} color={THEME.noir} />
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity onPress={runComparison} disabled={!canRun} style={[styles.sendBtn, !canRun && styles.disabled]}>
+                    <Feather name="arrow-up" size={18} color={THEME.noir} />
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          </View>
+        )}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: THEME.noir,
+  },
+  flex: {
+    flex: 1,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.border,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  headerBtn: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  // Model selection
+  modelBar: {
+    paddingVertical: 10,
+    paddingLeft: 16,
+    gap: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.border,
+  },
+  modelBarLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  modelChips: {
+    gap: 6,
+    paddingRight: 16,
+  },
+  modelChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    maxWidth: 200,
+  },
+  modelChipActive: {
+    backgroundColor: THEME.redLight,
+    borderColor: THEME.borderAccent,
+  },
+  modelChipText: {
+    fontSize: 13,
+    color: THEME.textSecondary,
+  },
+  modelChipTextActive: {
+    color: THEME.red,
+    fontWeight: '600',
+  },
+
+  // Columns
+  columns: {
+    padding: 16,
+    gap: 12,
+  },
+  column: {
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    padding: 12,
+  },
+  columnWinner: {
+    borderColor: THEME.borderAccent,
+  },
+  columnHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  columnTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  columnBody: {
+    flex: 1,
+    marginTop: 8,
+  },
+  columnSpinner: {
+    marginTop: 12,
+  },
+  metrics: {
+    fontSize: 11,
+    color: THEME.textMuted,
+    marginTop: 4,
+    fontVariant: ['tabular-nums'],
+  },
+  answerText: {
+    fontSize: 14,
+    lineHeight: 21,
+    color: THEME.text,
+  },
+  voteBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  voteBtnActive: {
+    borderColor: THEME.borderAccent,
+    backgroundColor: THEME.redLight,
+  },
+  voteText: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+  },
+  voteTextActive: {
+    color: THEME.red,
+    fontWeight: '600',
+  },
+  errorBox: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 8,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 12,
+    color: THEME.textSecondary,
+    lineHeight: 17,
+  },
+
+  // Empty state
+  empty: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: THEME.textMuted,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+
+  // History
+  historyList: {
+    padding: 16,
+    gap: 8,
+  },
+  card: {
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 6,
+  },
+  leaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  leaderName: {
+    flex: 1,
+    fontSize: 14,
+    color: THEME.text,
+  },
+  leaderWins: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: THEME.red,
+    fontVariant: ['tabular-nums'],
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  historyPrompt: {
+    fontSize: 14,
+    color: THEME.text,
+    lineHeight: 20,
+  },
+  historyMeta: {
+    fontSize: 12,
+    color: THEME.textMuted,
+    marginTop: 4,
+  },
+  historyWinner: {
+    fontSize: 12,
+    color: THEME.red,
+    marginTop: 2,
+  },
+
+  // Composer
+  composer: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: THEME.border,
+  },
+  composerInner: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    backgroundColor: THEME.surface,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    color: THEME.text,
+    fontSize: 15,
+    maxHeight: 100,
+    paddingVertical: 6,
+  },
+  sendBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 9,
+    backgroundColor: THEME.red,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
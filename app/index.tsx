@@ -20,19 +20,85 @@ import * as Haptics from 'expo-haptics';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Image } from 'expo-image';
 import * as FileSystem from 'expo-file-system';
-import { useRouter } from 'expo-router';
+import { useRouter, useFocusEffect } from 'expo-router';
 import { Feather } from '@expo/vector-icons';
 import { StatusBar } from 'expo-status-bar';
-import Slider from '@react-native-community/slider';
 import { DEFAULT_SETTINGS } from '@/constants/settings';
 import { AppSettings } from '@/types/settings';
-import { VeniceModel } from '@/types/venice';
-import { loadStoredSettings, persistSettings } from '@/utils/settingsStorage';
 import {
-  VENICE_CHAT_COMPLETIONS_ENDPOINT,
-  VENICE_MODELS_ENDPOINT,
-  VENICE_IMAGE_GENERATIONS_ENDPOINT,
-} from '@/constants/venice';
+  VeniceChatMessage,
+  VeniceChatRequest,
+  VeniceModel,
+  VeniceParameters,
+  VeniceUsage,
+} from '@/types/venice';
+import {
+  ContextSummary,
+  Conversation,
+  Message,
+  MessageAttachment,
+  MessageMetrics,
+  MessageToolCall,
+  ResponseSchema,
+} from '@/types/chat';
+import { Persona } from '@/types/persona';
+import { GeneratedImage, ImageGenerationParams } from '@/types/image';
+import { loadSettingsWithIssues, persistSettings } from '@/utils/settingsStorage';
+import {
+  loadConversations,
+  persistConversations,
+  createConversationId,
+  isStorageFullError,
+  upsertConversation,
+} from '@/utils/conversationStorage';
+import { getImageConstraints, imageModelDefaults, resolveImageSettings } from '@/utils/imageConstraints';
+import { ImageWork, expandVariants, groupImageBatches, toImageGenerateRequest } from '@/utils/imageGeneration';
+import { QueuedJob, createJobQueue } from '@/utils/jobQueue';
+import {
+  buildSamplingParams,
+  extractThinkingBlocks,
+  modelSupportsVision,
+  toMessageCitations,
+  withContinuation,
+} from '@/utils/chatRequest';
+import {
+  BilledTokens,
+  billedTokens,
+  buildContextMessages,
+  capContextBudget,
+  createSummarizer,
+  estimatePromptTokens,
+  estimateTokens,
+  fitToContext,
+  getContextBudget,
+  measureContext,
+  pickSummaryModel,
+} from '@/utils/contextBudget';
+import { pickImageAttachment, AttachmentSource } from '@/utils/imageAttachments';
+import { veniceClient, VeniceApiError } from '@/utils/veniceClient';
+import { toMessageError, spendingCapError, ERROR_FIX_LABELS } from '@/utils/veniceErrors';
+import { chatCost, editCost, imageCost } from '@/utils/pricing';
+import { confirmSpend, recordUsage } from '@/utils/usageLedger';
+import { loadGallery, saveGalleryImage, deleteGalleryImage, loadImageDataUrl } from '@/utils/galleryStorage';
+import { ImageToolJob, ImageToolSource, describeImageJob, imageOperationOf, runImageTool } from '@/utils/imageTools';
+import { PersonaOverride, loadPersonas, swapPersonaSettings } from '@/utils/personaStorage';
+import { BranchInfo, branchInfoOf, forkAt, switchVersion, versionCount } from '@/utils/messageBranches';
+import { checkStructuredReply, extractJson } from '@/utils/jsonSchema';
+import { toResponseFormat } from '@/utils/schemaStorage';
+import { createToolCallCollector, runToolCall, toolDefinitions } from '@/utils/chatTools';
+import { ConversationExportFormat, EXPORT_FORMATS, exportConversation, parseConversationFile } from '@/utils/conversationTransfer';
+import { exportTextFile, importTextFile, toFileName } from '@/utils/fileTransfer';
+import ConversationDrawer from '@/components/ConversationDrawer';
+import ImageDetailModal from '@/components/ImageDetailModal';
+import ImageToolsSheet, { toImageToolSource } from '@/components/ImageToolsSheet';
+import ImageSettingsPanel from '@/components/ImageSettingsPanel';
+import ApiKeyPrompt from '@/components/ApiKeyPrompt';
+import MarkdownView from '@/components/MarkdownView';
+import SourcesPanel from '@/components/SourcesPanel';
+import PersonaPicker from '@/components/PersonaPicker';
+import SchemaPicker from '@/components/SchemaPicker';
+import JsonTree from '@/components/JsonTree';
+import ToolCallCard from '@/components/ToolCallCard';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // FRENCH DESIGNER THEME - Subtle, Elegant, Futuristic
@@ -75,32 +141,6 @@ const THEME = {
   orangeGlow: 'rgba(255, 127, 80, 0.2)',
 };
 
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-  id: string;
-  isStreaming?: boolean;
-  reasoning?: string;
-  metrics?: {
-    tokensPerSecond?: number;
-    totalTokens?: number;
-    inputTokens?: number;
-    outputTokens?: number;
-    cost?: number;
-    responseTime?: number;
-  };
-}
-
-interface GeneratedImage {
-  id: string;
-  prompt: string;
-  modelId: string;
-  createdAt: number;
-  imageData: string;
-  width?: number;
-  height?: number;
-}
-
 const isImageModel = (model?: VeniceModel | null): boolean => {
   if (!model) return false;
   const modelType = model.type?.toLowerCase() ?? '';
@@ -111,57 +151,6 @@ const isImageModel = (model?: VeniceModel | null): boolean => {
   return ['flux', 'stable-diffusion', 'imagen', 'dall'].some(k => modelId.includes(k));
 };
 
-const resolveUsdPrice = (p: unknown): number | undefined => {
-  if (typeof p === 'number') return p;
-  if (p && typeof p === 'object' && 'usd' in p) {
-    const val = (p as any).usd;
-    return typeof val === 'number' ? val : undefined;
-  }
-  return undefined;
-};
-
-const getConstraintNumber = (constraint: any): number | undefined => {
-  if (constraint == null) return undefined;
-  if (typeof constraint === 'number') return constraint;
-  if (typeof constraint.default === 'number') return constraint.default;
-  if (typeof constraint.max === 'number') return constraint.max;
-  return undefined;
-};
-
-const getModelMaxTokens = (model?: VeniceModel | null): number | undefined => {
-  if (!model) return undefined;
-  const c = model.model_spec?.constraints || {};
-  for (const key of ['max_output_tokens', 'maxOutputTokens', 'max_tokens', 'response_tokens']) {
-    const val = getConstraintNumber((c as any)[key]);
-    if (val && val > 0) return val;
-  }
-  return undefined;
-};
-
-const extractThinkingBlocks = (text: string): { reasoning: string; content: string } => {
-  if (!text) return { reasoning: '', content: '' };
-
-  const patterns: RegExp[] = [
-    /<think>([\s\S]*?)<\/think>/gi,
-    /<thinking>([\s\S]*?)<\/thinking>/gi,
-    /```(?:thinking|think)\s*\n([\s\S]*?)```/gi,
-  ];
-
-  const reasoningParts: string[] = [];
-  let content = text;
-
-  for (const pattern of patterns) {
-    content = content.replace(pattern, (_m, inner: string) => {
-      const cleaned = String(inner ?? '').trim();
-      if (cleaned) reasoningParts.push(cleaned);
-      return '';
-    });
-  }
-
-  content = content.replace(/\n{3,}/g, '\n\n').trim();
-  return { reasoning: reasoningParts.join('\n\n').trim(), content };
-};
-
 const SUGGESTIONS = [
   { icon: 'code', text: 'Write a React hook' },
   { icon: 'edit-3', text: 'Draft a professional email' },
@@ -176,6 +165,17 @@ const IMAGE_SUGGESTIONS = [
   { icon: 'layers', text: 'Abstract geometric art, vibrant colors' },
 ];
 
+// Tool rounds per reply before the model is made to answer without them.
+const MAX_TOOL_ROUNDS = 5;
+
+// One request of a reply as it streams: what was sent, what came back and any usage Venice reported.
+interface ReplyRequest {
+  sent: VeniceChatMessage[];
+  received: string;
+  answered: boolean;
+  usage?: VeniceUsage;
+}
+
 const SCREEN_WIDTH = Dimensions.get('window').width;
 
 export default function MainScreen() {
@@ -188,46 +188,116 @@ export default function MainScreen() {
   const [input, setInput] = useState('');
   const [imagePrompt, setImagePrompt] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [isGenerating, setIsGenerating] = useState(false);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [models, setModels] = useState<VeniceModel[]>([]);
+  // Edit models are listed apart: they only serve the image tools, never the pickers.
+  const [editModels, setEditModels] = useState<VeniceModel[]>([]);
+  const [imageStyles, setImageStyles] = useState<string[]>([]);
   const [showModels, setShowModels] = useState(false);
   const [loadingModels, setLoadingModels] = useState(true);
   const [images, setImages] = useState<GeneratedImage[]>([]);
   const [imageSettings, setImageSettings] = useState(false);
   const [expandedReasoning, setExpandedReasoning] = useState<Record<string, boolean>>({});
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversationsLoaded, setConversationsLoaded] = useState(false);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [showConversations, setShowConversations] = useState(false);
+  const [showKeyPrompt, setShowKeyPrompt] = useState(false);
+  const [pendingAttachments, setPendingAttachments] = useState<MessageAttachment[]>([]);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [activePersona, setActivePersona] = useState<Persona | null>(null);
+  const [showPersonas, setShowPersonas] = useState(false);
+  const [contextSummary, setContextSummary] = useState<ContextSummary | null>(null);
+  const [responseSchema, setResponseSchema] = useState<ResponseSchema | null>(null);
+  const [showSchemas, setShowSchemas] = useState(false);
+  const [selectedImage, setSelectedImage] = useState<GeneratedImage | null>(null);
+  const [imageJobs, setImageJobs] = useState<QueuedJob<ImageWork>[]>([]);
+  // Sources the image tools sheet opens with; null while it is closed.
+  const [toolSources, setToolSources] = useState<ImageToolSource[] | null>(null);
 
   // Refs
-  const listRef = useRef<FlatList>(null);
+  const listRef = useRef<FlatList<Message>>(null);
   const imageScrollRef = useRef<ScrollView>(null);
   const controllerRef = useRef<AbortController | null>(null);
   const startTimeRef = useRef<number>(0);
-  const tokenRef = useRef<number>(0);
   const shimmerAnim = useRef(new Animated.Value(0)).current;
-
-  // Load settings and models
+  const settingsRef = useRef<AppSettings>(DEFAULT_SETTINGS);
+  settingsRef.current = settings;
+  const personaRef = useRef<Persona | null>(null);
+  personaRef.current = activePersona;
+  const contextSummaryRef = useRef<ContextSummary | null>(null);
+  contextSummaryRef.current = contextSummary;
+  const responseSchemaRef = useRef<ResponseSchema | null>(null);
+  responseSchemaRef.current = responseSchema;
+  const conversationIdRef = useRef<string | null>(null);
+  conversationIdRef.current = activeConversationId;
+  // Prompt size the current thread is held to after "Shorten history", for the model that
+  // rejected it; cleared with the thread, and ignored once another model is picked.
+  const contextCapRef = useRef<{ model: string; tokens: number } | null>(null);
+  const contextCapFor = (model: string) =>
+    contextCapRef.current?.model === model ? contextCapRef.current.tokens : null;
+  // The queue outlives renders, so it reaches the latest runner through a ref.
+  const runImageWorkRef = useRef<(job: QueuedJob<ImageWork>, signal: AbortSignal) => Promise<void>>(async () => {});
+  const [jobQueue] = useState(() => createJobQueue<ImageWork>({
+    concurrency: DEFAULT_SETTINGS.imageConcurrency,
+    run: (job, signal) => runImageWorkRef.current(job, signal),
+    onChange: setImageJobs,
+  }));
+  const isGenerating = imageJobs.some(j => j.status === 'running');
+
+  // Load models, saved conversations and the gallery
   useEffect(() => {
-    loadStoredSettings<AppSettings>(DEFAULT_SETTINGS).then(setSettings);
+    loadConversations().then(stored => {
+      setConversations(stored);
+      setConversationsLoaded(true);
+    });
+    loadGallery().then(setImages);
     loadModels();
     return () => controllerRef.current?.abort();
   }, []);
 
+  useEffect(() => () => jobQueue.cancelAll(), [jobQueue]);
+
+  useEffect(() => {
+    jobQueue.setConcurrency(settings.imageConcurrency);
+  }, [jobQueue, settings.imageConcurrency]);
+
+  // Settings and personas are edited on other screens, so pick up changes whenever we come back.
+  useFocusEffect(useCallback(() => {
+    loadSettingsWithIssues().then(({ settings: stored, issues }) => {
+      setSettings(stored);
+      // Invalid fields were reset and the file repaired, so this shows only once.
+      if (issues.length) {
+        Alert.alert(
+          'Some settings were reset',
+          issues.map(issue => `${issue.field}: ${issue.problem}`).join('\n')
+        );
+      }
+    });
+    loadPersonas().then(setPersonas);
+  }, []));
+
   const loadModels = async () => {
     setLoadingModels(true);
     try {
-      const [textRes, imgRes] = await Promise.all([
-        fetch(VENICE_MODELS_ENDPOINT),
-        fetch(`${VENICE_MODELS_ENDPOINT}?type=image`),
+      const [textModels, imgModels, inpaintModels, styles] = await Promise.all([
+        veniceClient.listModels(),
+        veniceClient.listModels('image'),
+        // Not every key can edit; the other tools still work without these.
+        veniceClient.listModels('inpaint').catch(() => []),
+        // Presets are optional, so generation goes on without them.
+        veniceClient.listImageStyles().catch(() => []),
       ]);
 
-      const textData = await textRes.json();
-      const imgData = await imgRes.json();
-
-      const textModels = Array.isArray(textData?.data) ? textData.data : [];
-      const imgModels = Array.isArray(imgData?.data) ? imgData.data : [];
-
       setModels([...textModels, ...imgModels]);
+      setEditModels(inpaintModels);
+      setImageStyles(styles);
     } catch (e) {
+      if (e instanceof VeniceApiError && e.code === 'NO_API_KEY') {
+        setShowKeyPrompt(true);
+        return;
+      }
       console.error('Failed to load models:', e);
     } finally {
       setLoadingModels(false);
@@ -242,12 +312,155 @@ export default function MainScreen() {
     });
   }, []);
 
+  // What the active persona changed in the settings, so clearing it puts them back.
+  const personaOverrideRef = useRef<PersonaOverride | null>(null);
+  const applyPersona = useCallback((persona: Persona | null) => {
+    const { updates, override } = swapPersonaSettings(settingsRef.current, personaOverrideRef.current, persona);
+    personaOverrideRef.current = override;
+    setActivePersona(persona);
+    if (Object.keys(updates).length) updateSettings(updates);
+  }, [updateSettings]);
+
+  // Only the first of a run of failed saves is shown; the cause rarely clears by itself.
+  const saveFailedRef = useRef(false);
+  const saveConversations = useCallback((next: Conversation[]) => {
+    persistConversations(next).then(error => {
+      if (!error || saveFailedRef.current) {
+        saveFailedRef.current = !!error;
+        return;
+      }
+      saveFailedRef.current = true;
+      const message = isStorageFullError(error)
+        ? 'Device storage is full, so recent messages will be lost when the app closes. Delete older conversations, especially ones with images, to keep saving.'
+        : `Recent messages will be lost when the app closes. ${error.message}`;
+      if (Platform.OS === 'web') {
+        if (typeof window !== 'undefined') window.alert(`Conversations not saved\n\n${message}`);
+        return;
+      }
+      Alert.alert('Conversations not saved', message);
+    });
+  }, []);
+
+  // Save the active thread whenever its messages settle (never mid-stream)
+  useEffect(() => {
+    if (!conversationsLoaded || !activeConversationId || !messages.length) return;
+    if (messages.some(m => m.isStreaming)) return;
+    setConversations(prev => {
+      // A freshly resumed thread hands back its stored array; nothing to save yet.
+      if (prev.find(c => c.id === activeConversationId)?.messages === messages) return prev;
+      const next = upsertConversation(prev, activeConversationId, messages, settingsRef.current, {
+        persona: personaRef.current ?? undefined,
+        contextSummary: contextSummaryRef.current ?? undefined,
+        responseSchema: responseSchemaRef.current ?? undefined,
+      });
+      saveConversations(next);
+      return next;
+    });
+  }, [messages, activeConversationId, conversationsLoaded, saveConversations]);
+
+  const startNewConversation = useCallback(() => {
+    controllerRef.current?.abort();
+    contextCapRef.current = null;
+    setMessages([]);
+    setActiveConversationId(null);
+    setExpandedReasoning({});
+    setEditingMessageId(null);
+    setContextSummary(null);
+    setResponseSchema(null);
+    applyPersona(null);
+    setShowConversations(false);
+  }, [applyPersona]);
+
+  const resumeConversation = useCallback((conversation: Conversation) => {
+    controllerRef.current?.abort();
+    contextCapRef.current = null;
+    setMessages(conversation.messages);
+    setActiveConversationId(conversation.id);
+    setExpandedReasoning({});
+    setEditingMessageId(null);
+    // The thread's saved settings already carry its persona's overrides and replace the current ones.
+    personaOverrideRef.current = null;
+    setActivePersona(conversation.persona ?? null);
+    setContextSummary(conversation.contextSummary ?? null);
+    setResponseSchema(conversation.responseSchema ?? null);
+    updateSettings({ ...conversation.settings, model: conversation.model });
+    setShowConversations(false);
+    setActiveTab('chat');
+  }, [updateSettings]);
+
+  const renameConversation = useCallback((id: string, title: string) => {
+    setConversations(prev => {
+      const next = prev.map(c => (c.id === id ? { ...c, title } : c));
+      saveConversations(next);
+      return next;
+    });
+  }, [saveConversations]);
+
+  const deleteConversation = useCallback((id: string) => {
+    setConversations(prev => {
+      const next = prev.filter(c => c.id !== id);
+      saveConversations(next);
+      return next;
+    });
+    if (id === activeConversationId) {
+      contextCapRef.current = null;
+      setMessages([]);
+      setActiveConversationId(null);
+    }
+  }, [activeConversationId, saveConversations]);
+
+  const exportConversationFile = async (conversation: Conversation, format: ConversationExportFormat) => {
+    const { extension, mimeType } = EXPORT_FORMATS.find(f => f.format === format)!;
+    try {
+      await exportTextFile(
+        toFileName(conversation.title, extension),
+        exportConversation(conversation, format, getModelName),
+        mimeType
+      );
+    } catch (e: any) {
+      Alert.alert('Export failed', e?.message || 'Unable to export the conversation.');
+    }
+  };
+
+  const importConversation = useCallback(async () => {
+    try {
+      const text = await importTextFile();
+      if (!text) return;
+      const conversation = parseConversationFile(text, settingsRef.current);
+      setConversations(prev => {
+        const next = [conversation, ...prev];
+        saveConversations(next);
+        return next;
+      });
+      resumeConversation(conversation);
+    } catch (e: any) {
+      Alert.alert('Import failed', e?.message || 'Unable to import the conversation.');
+    }
+  }, [resumeConversation, saveConversations]);
+
+  const currentTextModel = useMemo(() => models.find(m => m.id === settings.model), [models, settings.model]);
+  const canAttachImages = modelSupportsVision(currentTextModel);
+  const supportsResponseSchema = !!currentTextModel?.model_spec?.capabilities?.supportsResponseSchema;
+
   const textModels = useMemo(() =>
     models.filter(m => !isImageModel(m)), [models]);
 
   const imageModels = useMemo(() =>
     models.filter(m => isImageModel(m)), [models]);
 
+  const imageGroups = useMemo(() => groupImageBatches(images), [images]);
+
+  // How full the next request would be, including the persona prompt and the reply reservation.
+  const contextUsage = useMemo(() => measureContext(
+    buildContextMessages({
+      history: messages,
+      systemPrompt: activePersona?.systemPrompt,
+      includeImages: canAttachImages,
+      summary: contextSummary,
+    }),
+    getContextBudget(settings, currentTextModel)
+  ), [messages, activePersona, canAttachImages, contextSummary, settings, currentTextModel]);
+
   // Auto-select models
   useEffect(() => {
     if (textModels.length && !textModels.find(m => m.id === settings.model)) {
@@ -257,7 +470,7 @@ export default function MainScreen() {
 
   useEffect(() => {
     if (imageModels.length && !imageModels.find(m => m.id === settings.imageModel)) {
-      updateSettings({ imageModel: imageModels[0].id });
+      updateSettings({ imageModel: imageModels[0].id, ...imageModelDefaults(imageModels[0]) });
     }
   }, [imageModels, settings.imageModel, updateSettings]);
 
@@ -277,7 +490,7 @@ export default function MainScreen() {
   }, [isGenerating, shimmerAnim]);
 
   const getModelName = (id: string) => {
-    const m = models.find(x => x.id === id);
+    const m = models.find(x => x.id === id) ?? editModels.find(x => x.id === id);
     return m?.model_spec?.name || id.split('/').pop() || id;
   };
 
@@ -299,6 +512,12 @@ export default function MainScreen() {
         return;
       }
 
+      // Gallery images already live in the document directory.
+      if (img.imageData.startsWith('file:')) {
+        await Share.share({ url: img.imageData, title: 'vGPT Image', message: img.prompt });
+        return;
+      }
+
       const match = img.imageData.match(/^data:(image\/[a-zA-Z0-9.+-]+);base64,(.*)$/);
       if (!match) throw new Error('Unsupported image data.');
 
@@ -322,27 +541,96 @@ export default function MainScreen() {
   // STREAMING CHAT
   // ═══════════════════════════════════════════════════════════════════════════
 
-  const handleSend = async () => {
-    const text = input.trim();
-    if (!text || isLoading) return;
-
-    setInput('');
+  /**
+   * Checks a paid call expected to cost `estimate` against the spending cap.
+   * Resolves null to go ahead, or the reason it was held back.
+   */
+  const checkSpend = (estimate = 0) => confirmSpend(settingsRef.current, estimate);
+
+  /**
+   * Streams a reply to `history` into a fresh assistant message appended after
+   * it, or, given a stopped reply as `resume`, onto the end of that message.
+   */
+  const runCompletion = async (history: Message[], branch: BranchInfo = {}, resume?: Message) => {
     setIsLoading(true);
 
-    const userMsg: Message = { role: 'user', content: text, id: `${Date.now()}` };
-    const history = [...messages, userMsg];
-    setMessages(history);
+    const assistantId = resume?.id ?? `${Date.now()}-ai`;
+    if (resume) {
+      setMessages(prev => prev.map(m => (m.id === assistantId ? { ...m, isStreaming: true, stopped: undefined } : m)));
+    } else {
+      setMessages(prev => [
+        ...prev,
+        { role: 'assistant', content: '', reasoning: '', id: assistantId, isStreaming: true, ...branch },
+      ]);
+    }
 
-    const assistantId = `${Date.now()}-ai`;
-    setMessages(prev => [...prev, { role: 'assistant', content: '', reasoning: '', id: assistantId, isStreaming: true }]);
+    const currentModel = models.find(m => m.id === settings.model);
+
+    // Kept outside the try so a stopped reply can still report how far it got.
+    let content = resume?.content ?? '';
+    let reasoning = resume?.reasoning ?? '';
+    let skippedChunks = resume?.skippedChunks ?? 0;
+    let streamStart: number | null = null;
+    let streamedTokens = 0;
+
+    // Tool rounds make a reply several requests. Each is settled into `billed`
+    // as it ends, so whichever way the reply ends, everything sent is recorded.
+    const billed: BilledTokens = { inputTokens: 0, outputTokens: 0 };
+    let pending: ReplyRequest | null = null;
+
+    // A request Venice rejected outright isn't billed; one it answered, or the user stopped, is.
+    const settleRequest = (stopped = false) => {
+      if (pending && (pending.answered || stopped)) {
+        const tokens = billedTokens(pending.usage, pending.sent, pending.received);
+        billed.inputTokens += tokens.inputTokens;
+        billed.outputTokens += tokens.outputTokens;
+      }
+      pending = null;
+    };
+
+    // Records what the reply cost, however it ended, and returns the cost.
+    const recordReplyUsage = (stopped = false): number | undefined => {
+      settleRequest(stopped);
+      if (!billed.inputTokens) return undefined;
+      const cost = chatCost(currentModel, billed.inputTokens, billed.outputTokens);
+      recordUsage({
+        kind: 'chat',
+        model: settings.model,
+        inputTokens: billed.inputTokens,
+        outputTokens: billed.outputTokens,
+        costUsd: cost,
+        conversationId: conversationIdRef.current ?? undefined,
+      });
+      return cost;
+    };
+
+    const replyMetrics = (cost: number | undefined): MessageMetrics | undefined => {
+      if (!billed.inputTokens || streamStart === null) return undefined;
+      const responseTime = (Date.now() - streamStart) / 1000;
+      return {
+        tokensPerSecond: responseTime > 0 ? Math.round((billed.outputTokens / responseTime) * 10) / 10 : 0,
+        totalTokens: billed.inputTokens + billed.outputTokens,
+        inputTokens: billed.inputTokens,
+        outputTokens: billed.outputTokens,
+        responseTime: Math.round(responseTime * 10) / 10,
+        cost: cost ? Math.round(cost * 10000) / 10000 : undefined,
+      };
+    };
 
     try {
       const controller = new AbortController();
       controllerRef.current?.abort();
       controllerRef.current = controller;
 
-      const currentModel = models.find(m => m.id === settings.model);
-      const veniceParams: any = {
+      const contextInput = {
+        history: resume ? withContinuation(history, resume) : history,
+        systemPrompt: activePersona?.systemPrompt,
+        includeImages: modelSupportsVision(currentModel),
+        summary: contextSummary,
+      };
+      const budget = capContextBudget(getContextBudget(settings, currentModel), contextCapFor(settings.model));
+
+      const veniceParams: VeniceParameters = {
         include_venice_system_prompt: settings.includeVeniceSystemPrompt,
       };
       if (settings.stripThinking) veniceParams.strip_thinking = true;
@@ -350,148 +638,204 @@ export default function MainScreen() {
       if (currentModel?.model_spec?.capabilities?.supportsWebSearch) {
         veniceParams.enable_web_search = settings.webSearch;
         veniceParams.enable_web_citations = settings.webCitations;
+        if (settings.webSearch !== 'off' && settings.includeSearchResults) {
+          veniceParams.include_search_results_in_stream = true;
+        }
       }
 
-      const modelMax = getModelMaxTokens(currentModel);
-      let maxCompletionTokens: number | undefined;
-      if (currentModel?.model_spec?.capabilities?.supportsReasoning) {
-        maxCompletionTokens = modelMax ?? settings.maxTokens;
-      } else {
-        maxCompletionTokens = modelMax ? Math.min(settings.maxTokens, modelMax) : settings.maxTokens;
-      }
-
-      const body = {
-        model: settings.model,
-        messages: history.map(m => ({ role: m.role, content: m.content })),
-        stream: true,
-        venice_parameters: veniceParams,
-        temperature: settings.temperature,
-        top_p: settings.topP,
-        ...(maxCompletionTokens ? { max_completion_tokens: maxCompletionTokens } : {}),
-      };
+      // Long threads are trimmed or summarized to fit the model's window before sending.
+      const summaryModel = settings.contextStrategy === 'summarize'
+        ? pickSummaryModel(textModels, currentModel)
+        : undefined;
+      const fitted = await fitToContext(
+        contextInput,
+        budget,
+        summaryModel
+          ? createSummarizer(veniceClient, summaryModel.id, {
+              signal: controller.signal,
+              checkSpend: estimate => checkSpend(chatCost(summaryModel, estimate.inputTokens, estimate.outputTokens)),
+              onUsage: tokens => recordUsage({
+                kind: 'summary',
+                model: summaryModel.id,
+                ...tokens,
+                costUsd: chatCost(summaryModel, tokens.inputTokens, tokens.outputTokens),
+                conversationId: conversationIdRef.current ?? undefined,
+              }),
+            })
+          : undefined
+      );
+      if (fitted.summary !== contextSummary) setContextSummary(fitted.summary ?? null);
+
+      const offerTools = settings.enableTools && !!currentModel?.model_spec?.capabilities?.supportsFunctionCalling;
+      const requestMessages = [...fitted.messages];
+      const toolCalls: MessageToolCall[] = [...(resume?.toolCalls ?? [])];
 
       startTimeRef.current = Date.now();
-      tokenRef.current = 0;
-
-      const response = await fetch(VENICE_CHAT_COMPLETIONS_ENDPOINT, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
-        signal: controller.signal,
-      });
-
-      if (!response.ok) throw new Error(`API error: ${response.status}`);
-
-      let content = '';
-      let reasoning = '';
-      let usage: any = null;
+      streamStart = startTimeRef.current;
 
-      const contentType = response.headers.get('content-type') || '';
-      if (contentType.includes('text/event-stream') && response.body) {
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let buffer = '';
+      // Why a request was held back by the spending cap, ending the reply early.
+      let held: string | null = null;
 
-        while (true) {
-          const { value, done } = await reader.read();
-          if (done) break;
+      const showToolCalls = () => setMessages(prev => prev.map(m =>
+        m.id === assistantId ? { ...m, content, toolCalls: [...toolCalls] } : m
+      ));
 
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
+      // Each round streams a reply; while the model asks for tools, run them,
+      // hand back the results and go again. The last round offers no tools.
+      for (let round = 0; ; round++) {
+        const withTools = offerTools && round < MAX_TOOL_ROUNDS;
+        const body: VeniceChatRequest = {
+          model: settings.model,
+          messages: requestMessages,
+          venice_parameters: veniceParams,
+          ...buildSamplingParams(settings, currentModel),
+          ...(withTools ? { tools: toolDefinitions() } : {}),
+        };
+        // Models without schema support still get their reply checked, just not constrained.
+        if (responseSchema && currentModel?.model_spec?.capabilities?.supportsResponseSchema) {
+          body.response_format = toResponseFormat(responseSchema);
+        }
 
-          for (const line of lines) {
-            if (!line.startsWith('data:')) continue;
-            const data = line.slice(5).trim();
-            if (data === '[DONE]') break;
+        const collector = createToolCallCollector();
+        // This round's text stays separate: thinking blocks are cut out of it
+        // as they close, and it is what goes back to the model with any tool calls.
+        const earlierContent = content;
+        let roundText = '';
+
+        // Every request is billed, tool rounds included, so each one is checked against the cap.
+        held = await checkSpend(chatCost(currentModel, estimatePromptTokens(requestMessages), budget.reserved));
+        if (held) break;
+
+        const request: ReplyRequest = { sent: [...requestMessages], received: '', answered: false };
+        pending = request;
+        for await (const delta of veniceClient.streamChat(body, { signal: controller.signal })) {
+          request.answered = true;
+          if (delta.type === 'usage') {
+            request.usage = delta.usage;
+            continue;
+          }
 
-            try {
-              const parsed = JSON.parse(data);
-              if (parsed.usage) usage = parsed.usage;
+          if (delta.type === 'tool_call') {
+            collector.add(delta.fragment);
+            continue;
+          }
 
-              const deltaContent = parsed?.choices?.[0]?.delta?.content;
-              const deltaReasoning = parsed?.choices?.[0]?.delta?.reasoning;
+          if (delta.type === 'skipped') {
+            skippedChunks++;
+            setMessages(prev => prev.map(m => (m.id === assistantId ? { ...m, skippedChunks } : m)));
+            continue;
+          }
 
-              if (deltaReasoning) reasoning += deltaReasoning;
-              if (deltaContent) {
-                content += deltaContent;
-                tokenRef.current += Math.ceil(deltaContent.length / 4);
-              }
+          if (delta.type === 'citations') {
+            const citations = toMessageCitations(delta.citations);
+            setMessages(prev => prev.map(m => (m.id === assistantId ? { ...m, citations } : m)));
+            continue;
+          }
 
-              const extracted = extractThinkingBlocks(content);
-              if (extracted.reasoning) {
-                reasoning = [reasoning, extracted.reasoning].filter(Boolean).join('\n\n');
-                content = extracted.content;
-              }
+          if (delta.type === 'reasoning') {
+            reasoning += delta.text;
+          } else {
+            roundText += delta.text;
+          }
+          request.received += delta.text;
+          streamedTokens += estimateTokens(delta.text);
 
-              if (deltaContent || deltaReasoning) {
-                const elapsed = (Date.now() - startTimeRef.current) / 1000;
-                const tps = elapsed > 0 ? tokenRef.current / elapsed : 0;
-
-                setMessages(prev => prev.map(m =>
-                  m.id === assistantId
-                    ? {
-                        ...m,
-                        content,
-                        reasoning: reasoning || undefined,
-                        metrics: { tokensPerSecond: Math.round(tps * 10) / 10, totalTokens: tokenRef.current }
-                      }
-                    : m
-                ));
-              }
-            } catch {}
+          const extracted = extractThinkingBlocks(roundText);
+          if (extracted.reasoning) {
+            reasoning = [reasoning, extracted.reasoning].filter(Boolean).join('\n\n');
+            roundText = extracted.content;
           }
+          content = earlierContent + roundText;
+
+          const elapsed = (Date.now() - startTimeRef.current) / 1000;
+          const tps = elapsed > 0 ? streamedTokens / elapsed : 0;
+
+          setMessages(prev => prev.map(m =>
+            m.id === assistantId
+              ? {
+                  ...m,
+                  content,
+                  reasoning: reasoning || undefined,
+                  metrics: { tokensPerSecond: Math.round(tps * 10) / 10, totalTokens: streamedTokens }
+                }
+              : m
+          ));
         }
-        reader.releaseLock();
-      } else {
-        const data = await response.json();
-        content = data?.choices?.[0]?.message?.content || '';
-        reasoning = data?.choices?.[0]?.message?.reasoning || '';
-        usage = data?.usage;
-      }
 
-      const extracted = extractThinkingBlocks(content);
-      if (extracted.reasoning) {
-        reasoning = [reasoning, extracted.reasoning].filter(Boolean).join('\n\n');
-        content = extracted.content;
+        settleRequest();
+
+        // The round is done: tidy its text once, before any tool call offset points into it.
+        const finished = extractThinkingBlocks(roundText);
+        if (finished.reasoning) reasoning = [reasoning, finished.reasoning].filter(Boolean).join('\n\n');
+        roundText = finished.content;
+        content = earlierContent + roundText;
+
+        const calls = withTools ? collector.calls() : [];
+        if (!calls.length) break;
+
+        requestMessages.push({ role: 'assistant', content: roundText, tool_calls: calls });
+        for (const call of calls) {
+          const index = toolCalls.push({
+            id: call.id,
+            name: call.function.name,
+            arguments: call.function.arguments,
+            status: 'running',
+            offset: content.length,
+          }) - 1;
+          showToolCalls();
+          const { ok, result } = await runToolCall(call, { conversations, signal: controller.signal });
+          toolCalls[index] = { ...toolCalls[index], status: ok ? 'done' : 'error', result };
+          showToolCalls();
+          requestMessages.push({ role: 'tool', tool_call_id: call.id, content: result });
+        }
+        if (content && !content.endsWith('\n')) content += '\n\n';
       }
 
-      // Final metrics
-      const responseTime = (Date.now() - startTimeRef.current) / 1000;
-      const inputTokens = usage?.prompt_tokens;
-      const outputTokens = usage?.completion_tokens;
-      const totalTokens = usage?.total_tokens || tokenRef.current;
-      const tps = responseTime > 0 ? totalTokens / responseTime : 0;
-
-      const model = models.find(m => m.id === settings.model);
-      const inPrice = resolveUsdPrice(model?.model_spec?.pricing?.input);
-      const outPrice = resolveUsdPrice(model?.model_spec?.pricing?.output);
-      let cost = 0;
-      if (inPrice && inputTokens) cost += (inPrice * inputTokens) / 1_000_000;
-      if (outPrice && outputTokens) cost += (outPrice * outputTokens) / 1_000_000;
+      // Each round was tidied as it finished, so tool call offsets already point into this text.
+      content = content.trimEnd();
 
+      const metrics = replyMetrics(recordReplyUsage());
       setMessages(prev => prev.map(m =>
         m.id === assistantId
           ? {
               ...m,
-              content: content || 'No response received.',
+              content: content || (held ? '' : 'No response received.'),
               reasoning: reasoning || undefined,
               isStreaming: false,
-              metrics: {
-                tokensPerSecond: Math.round(tps * 10) / 10,
-                totalTokens,
-                inputTokens,
-                outputTokens,
-                responseTime: Math.round(responseTime * 10) / 10,
-                cost: cost > 0 ? Math.round(cost * 10000) / 10000 : undefined,
-              },
+              ...(held ? { error: spendingCapError(held) } : {}),
+              ...(responseSchema && content ? { structured: checkStructuredReply(content, responseSchema) } : {}),
+              ...(metrics ? { metrics } : {}),
             }
           : m
       ));
     } catch (e: any) {
-      const msg = e.name === 'AbortError' ? 'Request cancelled.' : 'Something went wrong.';
+      if (e?.name === 'AbortError') {
+        // Keep what streamed so far. Usage never arrives for a stopped stream,
+        // so the request in flight is estimated, prompt included.
+        const metrics = replyMetrics(recordReplyUsage(true));
+        setMessages(prev => prev.map(m =>
+          m.id === assistantId
+            ? {
+                ...m,
+                content: content.trimEnd(),
+                reasoning: reasoning || undefined,
+                isStreaming: false,
+                stopped: true,
+                toolCalls: m.toolCalls?.map(c => (c.status === 'running' ? { ...c, status: 'error', result: 'Cancelled' } : c)),
+                ...(metrics ? { metrics } : {}),
+              }
+            : m
+        ));
+        return;
+      }
+
+      // A reply that failed part way still cost whatever was answered.
+      recordReplyUsage();
+      const error = toMessageError(e);
+      if (error.kind === 'no_api_key') setShowKeyPrompt(true);
+      // Keep whatever streamed before the failure; the error renders beneath it.
       setMessages(prev => prev.map(m =>
-        m.id === assistantId ? { ...m, content: msg, isStreaming: false } : m
+        m.id === assistantId ? { ...m, isStreaming: false, error } : m
       ));
     } finally {
       setIsLoading(false);
@@ -499,13 +843,299 @@ export default function MainScreen() {
     }
   };
 
+  const stopGeneration = () => {
+    Haptics.selectionAsync();
+    controllerRef.current?.abort();
+  };
+
+  // Picks a stopped reply back up; with nothing kept yet it just asks again.
+  const continueMessage = (id: string) => {
+    if (isLoading) return;
+    const index = messages.findIndex(m => m.id === id);
+    if (index < 0 || !messages[index].stopped) return;
+    if (!messages[index].content) {
+      retryMessage(id);
+      return;
+    }
+    Haptics.selectionAsync();
+    runCompletion(messages.slice(0, index), {}, messages[index]);
+  };
+
+  const handleSend = async () => {
+    const text = input.trim();
+    const attachments = canAttachImages ? pendingAttachments : [];
+    if ((!text && !attachments.length) || isLoading) return;
+
+    setInput('');
+    setPendingAttachments([]);
+    if (!activeConversationId) setActiveConversationId(createConversationId());
+
+    // Editing forks the thread at the edited message; the old tail stays reachable as a version.
+    const editIndex = editingMessageId ? messages.findIndex(m => m.id === editingMessageId) : -1;
+    setEditingMessageId(null);
+    if (editIndex >= 0) {
+      const original = messages[editIndex];
+      const keptAttachments = [...(original.attachments ?? []), ...attachments];
+      const userMsg: Message = {
+        role: 'user',
+        content: text,
+        id: `${Date.now()}`,
+        ...(keptAttachments.length ? { attachments: keptAttachments } : {}),
+        ...forkAt(messages, editIndex),
+      };
+      const history = [...messages.slice(0, editIndex), userMsg];
+      setMessages(history);
+      await runCompletion(history);
+      return;
+    }
+
+    const userMsg: Message = {
+      role: 'user',
+      content: text,
+      id: `${Date.now()}`,
+      ...(attachments.length ? { attachments } : {}),
+    };
+    const history = [...messages, userMsg];
+    setMessages(history);
+    await runCompletion(history);
+  };
+
+  const addAttachment = async (source: AttachmentSource) => {
+    try {
+      const attachment = await pickImageAttachment(source);
+      if (attachment) setPendingAttachments(prev => [...prev, attachment]);
+    } catch (e: any) {
+      Alert.alert('Attach image', e?.message || 'Unable to attach image.');
+    }
+  };
+
+  const handleAttach = () => {
+    Haptics.selectionAsync();
+    // The web picker offers the camera itself where the browser supports it.
+    if (Platform.OS === 'web') {
+      addAttachment('library');
+      return;
+    }
+    Alert.alert('Attach image', undefined, [
+      { text: 'Take photo', onPress: () => addAttachment('camera') },
+      { text: 'Choose from library', onPress: () => addAttachment('library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const retryMessage = (id: string) => {
+    if (isLoading) return;
+    const index = messages.findIndex(m => m.id === id);
+    if (index < 0) return;
+    const history = messages.slice(0, index);
+    setMessages(history);
+    runCompletion(history, branchInfoOf(messages[index]));
+  };
+
+  // Asks for a new answer in place of an assistant message, keeping the old one as a version.
+  const regenerateMessage = (id: string) => {
+    if (isLoading) return;
+    const index = messages.findIndex(m => m.id === id);
+    if (index < 0 || messages[index].role !== 'assistant') return;
+    Haptics.selectionAsync();
+    const branch = forkAt(messages, index);
+    const history = messages.slice(0, index);
+    setMessages(history);
+    runCompletion(history, branch);
+  };
+
+  const startEditing = (message: Message) => {
+    if (isLoading) return;
+    Haptics.selectionAsync();
+    setEditingMessageId(message.id);
+    setInput(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setInput('');
+  };
+
+  const selectPersona = (persona: Persona | null) => {
+    Haptics.selectionAsync();
+    applyPersona(persona);
+    setShowPersonas(false);
+  };
+
+  const selectResponseSchema = (schema: ResponseSchema | null) => {
+    Haptics.selectionAsync();
+    setResponseSchema(schema);
+    setShowSchemas(false);
+  };
+
+  const switchMessageVersion = (id: string, delta: number) => {
+    if (isLoading) return;
+    const index = messages.findIndex(m => m.id === id);
+    if (index < 0) return;
+    Haptics.selectionAsync();
+    setMessages(switchVersion(messages, index, (messages[index].versionIndex ?? 0) + delta));
+  };
+
+  /**
+   * Retries a reply the model rejected as too long, sending about half the
+   * prompt. Older turns are left out of the requests only; the saved thread
+   * keeps them.
+   */
+  const shortenHistoryAndRetry = (id: string) => {
+    if (isLoading) return;
+    const index = messages.findIndex(m => m.id === id);
+    if (index < 0) return;
+    const history = messages.slice(0, index);
+    const sent = estimatePromptTokens(buildContextMessages({
+      history,
+      systemPrompt: activePersona?.systemPrompt,
+      includeImages: canAttachImages,
+      summary: contextSummary,
+    }));
+    const cap = contextCapFor(settings.model);
+    contextCapRef.current = { model: settings.model, tokens: Math.floor(Math.min(cap ?? sent, sent) / 2) };
+    setMessages(history);
+    runCompletion(history, branchInfoOf(messages[index]));
+  };
+
+  const applyErrorFix = (message: Message) => {
+    switch (message.error?.fix) {
+      case 'add_key':
+        setShowKeyPrompt(true);
+        break;
+      case 'switch_model':
+        setShowModels(true);
+        break;
+      case 'shorten_history':
+        shortenHistoryAndRetry(message.id);
+        break;
+      case 'review_usage':
+        router.push('/usage');
+        break;
+    }
+  };
+
   // ═══════════════════════════════════════════════════════════════════════════
   // IMAGE GENERATION
   // ═══════════════════════════════════════════════════════════════════════════
 
-  const handleGenerate = async () => {
+  // Resolves the current image settings against the model's constraints.
+  const buildGenerationParams = (prompt: string, model: VeniceModel): ImageGenerationParams => {
+    const constraints = getImageConstraints(model);
+    const negativePrompt = settings.imageNegativePrompt.trim();
+    return {
+      model: model.id,
+      prompt,
+      ...resolveImageSettings(settings, constraints),
+      // Only diffusion models, the ones with a guidance scale, take a negative prompt.
+      ...(constraints.guidance && negativePrompt ? { negativePrompt } : {}),
+      ...(settings.imageStylePreset ? { stylePreset: settings.imageStylePreset } : {}),
+      // Left unset, each variant draws a fresh seed.
+      ...(settings.imageSeedLocked ? { seed: settings.imageSeed } : {}),
+    };
+  };
+
+  // Job runners: each throws on failure so the queue can offer a retry.
+  const generateImages = async (params: ImageGenerationParams, variants: number, signal: AbortSignal) => {
+    const model = models.find(m => m.id === params.model);
+    const batch = expandVariants(params, variants);
+    const held = await checkSpend(imageCost(model, batch.length));
+    if (held) throw new Error(held);
+
+    const results = await Promise.allSettled(
+      batch.map(p => veniceClient.generateImage(toImageGenerateRequest(p), { signal }))
+    );
+    if (signal.aborted) return;
+
+    const createdAt = Date.now();
+    const batchId = batch.length > 1 ? `${createdAt}` : undefined;
+    const made: GeneratedImage[] = [];
+    results.forEach((result, i) => {
+      if (result.status !== 'fulfilled' || !result.value.images?.length) return;
+      made.push({
+        id: `${createdAt}-${i}`,
+        prompt: params.prompt,
+        modelId: params.model,
+        createdAt,
+        imageData: `data:image/webp;base64,${result.value.images[0]}`,
+        width: params.width,
+        height: params.height,
+        params: batch[i],
+        batchId,
+      });
+    });
+    if (!made.length) {
+      const failure = results.find(r => r.status === 'rejected');
+      throw failure?.status === 'rejected' ? failure.reason : new Error('No images returned.');
+    }
+
+    recordUsage({ kind: 'image', model: params.model, images: made.length, costUsd: imageCost(model, made.length) });
+
+    const stored = await Promise.all(made.map(saveGalleryImage));
+    setImages(prev => [...stored, ...prev]);
+    if (made.length < batch.length) {
+      Alert.alert('Some variants failed', `${batch.length - made.length} of ${batch.length} images could not be generated.`);
+    }
+  };
+
+  const applyImageTool = async (job: ImageToolJob, signal: AbortSignal) => {
+    const model = job.kind === 'edit' ? editModels.find(m => m.id === job.model) : undefined;
+    const cost = job.kind === 'edit' ? editCost(model) : undefined;
+    const held = await checkSpend(cost);
+    if (held) throw new Error(held);
+
+    const inputs = await Promise.all(job.sources.map(s => loadImageDataUrl(s.uri)));
+    const data = await runImageTool(veniceClient, job, inputs, { signal });
+    if (signal.aborted) return;
+    if (!data.data) throw new Error('No image returned.');
+
+    const modelId = job.kind === 'edit' ? job.model : data.model || job.kind;
+    recordUsage({ kind: 'image', model: modelId, images: 1, costUsd: cost });
+
+    const base = job.sources[0];
+    const scale = job.kind === 'upscale' ? job.scale : 1;
+    const img: GeneratedImage = {
+      id: `${Date.now()}`,
+      prompt: describeImageJob(job),
+      modelId,
+      createdAt: Date.now(),
+      imageData: data.data.startsWith('data:')
+        ? data.data
+        : `data:${data.contentType || 'image/png'};base64,${data.data}`,
+      width: base.width ? base.width * scale : undefined,
+      height: base.height ? base.height * scale : undefined,
+      operation: imageOperationOf(job),
+      sourceIds: job.sources.flatMap(s => (s.galleryId ? [s.galleryId] : [])),
+    };
+
+    const stored = await saveGalleryImage(img);
+    setImages(prev => [stored, ...prev]);
+  };
+
+  const runImageWork = async ({ payload }: QueuedJob<ImageWork>, signal: AbortSignal) => {
+    try {
+      if (payload.kind === 'generate') await generateImages(payload.params, payload.variants, signal);
+      else await applyImageTool(payload.job, signal);
+      if (!signal.aborted) Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (e) {
+      if (signal.aborted) throw e;
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      if (e instanceof VeniceApiError && e.code === 'NO_API_KEY') setShowKeyPrompt(true);
+      throw e;
+    }
+  };
+  runImageWorkRef.current = runImageWork;
+
+  const enqueueImageWork = (label: string, work: ImageWork) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    jobQueue.add(label, work);
+    // Scroll to top to reveal the new job's card
+    setTimeout(() => imageScrollRef.current?.scrollTo({ y: 0, animated: true }), 100);
+  };
+
+  const handleGenerate = () => {
     const prompt = imagePrompt.trim();
-    if (!prompt || isGenerating) return;
+    if (!prompt) return;
 
     const model = imageModels.find(m => m.id === settings.imageModel);
     if (!model) {
@@ -513,100 +1143,109 @@ export default function MainScreen() {
       return;
     }
 
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    setIsGenerating(true);
-
-    try {
-      const stepsConstraint = model.model_spec?.constraints?.steps;
-      const modelDefaultSteps = getConstraintNumber(stepsConstraint);
-      const modelMaxSteps = typeof stepsConstraint === 'object' && stepsConstraint?.max
-        ? stepsConstraint.max : undefined;
-
-      // Use model default steps if available, otherwise user setting
-      let steps = modelDefaultSteps ?? settings.imageSteps ?? 8;
-      // If user has explicitly changed steps from default, respect their setting (capped to model max)
-      if (settings.imageSteps !== DEFAULT_SETTINGS.imageSteps) {
-        steps = settings.imageSteps;
-      }
-      // Cap to model max steps if available
-      if (modelMaxSteps) {
-        steps = Math.min(steps, modelMaxSteps);
-      }
-      // Force 1 step for any banana-variant models (nano-banana, bananapro, etc.)
-      const modelIdLower = model.id.toLowerCase();
-      if (modelIdLower.includes('banana')) {
-        steps = 1;
-      }
-
-      const payload = {
-        model: model.id,
-        prompt,
-        width: settings.imageWidth || 1024,
-        height: settings.imageHeight || 1024,
-        steps,
-        cfg_scale: Math.max(1, Math.min(20, settings.imageGuidanceScale || 7.5)),
-        format: 'webp',
-        hide_watermark: false,
-      };
+    enqueueImageWork(prompt, {
+      kind: 'generate',
+      params: buildGenerationParams(prompt, model),
+      variants: settings.imageVariants,
+    });
+    setImagePrompt('');
+  };
 
-      const res = await fetch(VENICE_IMAGE_GENERATIONS_ENDPOINT, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
+  const rerunImage = (image: GeneratedImage) => {
+    if (!image.params) return;
+    setSelectedImage(null);
+    enqueueImageWork(image.prompt, { kind: 'generate', params: image.params, variants: 1 });
+  };
 
-      if (!res.ok) throw new Error(`Image API error: ${res.status}`);
+  // Keeps the image's seed for the next generations and puts its prompt back in the composer.
+  const reuseSeed = (image: GeneratedImage) => {
+    if (image.params?.seed == null) return;
+    setSelectedImage(null);
+    updateSettings({ imageSeed: image.params.seed, imageSeedLocked: true });
+    setImagePrompt(image.prompt);
+    Haptics.selectionAsync();
+  };
 
-      const data = await res.json();
-      if (!data.images?.length) throw new Error('No images returned.');
+  const openImageTools = (sources: ImageToolSource[]) => {
+    setSelectedImage(null);
+    setToolSources(sources);
+  };
 
-      const img: GeneratedImage = {
-        id: `${Date.now()}`,
-        prompt,
-        modelId: model.id,
-        createdAt: Date.now(),
-        imageData: `data:image/webp;base64,${data.images[0]}`,
-        width: payload.width,
-        height: payload.height,
-      };
+  const runImageJob = (job: ImageToolJob) => {
+    setToolSources(null);
+    enqueueImageWork(describeImageJob(job), { kind: 'tool', job });
+  };
 
-      setImages(prev => [img, ...prev]);
-      setImagePrompt('');
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      // Scroll to top to reveal newly generated image
-      setTimeout(() => imageScrollRef.current?.scrollTo({ y: 0, animated: true }), 100);
-    } catch (e: any) {
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      Alert.alert('Error', e.message || 'Failed to generate image.');
-    } finally {
-      setIsGenerating(false);
-    }
+  const removeImage = (image: GeneratedImage) => {
+    setSelectedImage(null);
+    setImages(prev => prev.filter(i => i.id !== image.id));
+    deleteGalleryImage(image);
   };
 
+  const canSend = !isLoading && (!!input.trim() || (canAttachImages && pendingAttachments.length > 0));
+
   // ═══════════════════════════════════════════════════════════════════════════
   // RENDER HELPERS
   // ═══════════════════════════════════════════════════════════════════════════
 
-  const renderCode = (content: string): React.ReactNode => {
-    const parts = content.split(/(```[\s\S]*?```)/g);
-    return parts.map((part, i) => {
-      if (part.startsWith('```')) {
-        const code = part.replace(/^```\w*\n?/, '').replace(/```$/, '');
-        return (
-          <View key={i} style={styles.codeBlock}>
-            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-              <Text style={styles.codeText}>{code}</Text>
-            </ScrollView>
-          </View>
-        );
+  // Splits the reply at each tool call so every call shows where it happened.
+  const renderWithToolCalls = (item: Message) => {
+    const parts: React.ReactNode[] = [];
+    let start = 0;
+    for (const call of item.toolCalls ?? []) {
+      const text = item.content.slice(start, call.offset);
+      if (text.trim()) {
+        parts.push(<MarkdownView key={`text-${start}`} content={text} textStyle={styles.msgText} citations={item.citations} />);
       }
-      return <Text key={i} style={styles.msgText}>{part}</Text>;
-    });
+      parts.push(<ToolCallCard key={call.id} call={call} />);
+      start = Math.max(start, call.offset);
+    }
+    const rest = item.content.slice(start);
+    if (rest.trim()) {
+      parts.push(
+        <MarkdownView
+          key={`text-${start}`}
+          content={rest}
+          streaming={item.isStreaming}
+          textStyle={styles.msgText}
+          citations={item.citations}
+        />
+      );
+    }
+    return <View>{parts}</View>;
   };
 
-  // ═══════════════════════════════════════════════════════════════════════════
-  // LOADING STATE
-  // ═══════════════════════════════════════════════════════════════════════════
+  // A JSON-mode reply as a tree under its validation status; unparseable replies stay markdown.
+  const renderStructured = (item: Message) => {
+    const check = item.structured!;
+    const parsed = extractJson(item.content);
+    return (
+      <View style={styles.structured}>
+        <View style={styles.structuredHeader}>
+          <Feather
+            name={check.valid ? 'check-circle' : 'alert-circle'}
+            size={12}
+            color={check.valid ? THEME.textSecondary : THEME.red}
+          />
+          <Text style={[styles.structuredStatus, !check.valid && styles.structuredStatusInvalid]}>
+            {check.valid
+              ? `Matches ${check.schemaName}`
+              : `${check.errors.length} ${check.errors.length === 1 ? 'issue' : 'issues'} with ${check.schemaName}`}
+          </Text>
+        </View>
+        {check.errors.map((error, i) => (
+          <Text key={i} style={styles.structuredError}>• {error}</Text>
+        ))}
+        {parsed.error === undefined ? (
+          <View style={styles.structuredTree}>
+            <JsonTree value={parsed.value} />
+          </View>
+        ) : (
+          <MarkdownView content={item.content} textStyle={styles.msgText} citations={item.citations} />
+        )}
+      </View>
+    );
+  };
 
   // ═══════════════════════════════════════════════════════════════════════════
   // MAIN RENDER
@@ -619,6 +1258,13 @@ export default function MainScreen() {
       {/* Header */}
       <View style={[styles.header, { paddingTop: Math.max(insets.top, 8) }]}>
         <View style={styles.headerLeft}>
+          <TouchableOpacity
+            onPress={() => setShowConversations(true)}
+            style={styles.iconBtn}
+            accessibilityLabel="Conversations"
+          >
+            <Feather name="menu" size={18} color={THEME.textSecondary} />
+          </TouchableOpacity>
           <View style={styles.logoWrapper}>
             <View style={styles.logoRed} />
             <View style={styles.logoBlanc} />
@@ -639,12 +1285,39 @@ export default function MainScreen() {
         </TouchableOpacity>
 
         <View style={styles.headerRight}>
+          {activeTab === 'chat' && contextUsage.ratio !== undefined && (
+            <View
+              style={styles.contextMeter}
+              accessibilityLabel={`Context ${Math.round(contextUsage.ratio * 100)} percent full`}
+            >
+              <View style={styles.contextTrack}>
+                <View
+                  style={[
+                    styles.contextFill,
+                    {
+                      width: `${Math.min(contextUsage.ratio, 1) * 100}%`,
+                      backgroundColor: contextUsage.ratio >= 0.9 ? THEME.red : contextUsage.ratio >= 0.7 ? THEME.orange : THEME.textSecondary,
+                    },
+                  ]}
+                />
+              </View>
+              <Text style={styles.contextText}>{Math.round(contextUsage.ratio * 100)}%</Text>
+            </View>
+          )}
           <TouchableOpacity
-            onPress={() => setMessages([])}
+            onPress={startNewConversation}
             style={styles.iconBtn}
             disabled={messages.length === 0}
+            accessibilityLabel="New conversation"
+          >
+            <Feather name="edit" size={18} color={messages.length ? THEME.textSecondary : THEME.textDim} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push('/compare')}
+            style={styles.iconBtn}
+            accessibilityLabel="Compare models"
           >
-            <Feather name="trash-2" size={18} color={messages.length ? THEME.textSecondary : THEME.textDim} />
+            <Feather name="columns" size={18} color={THEME.textSecondary} />
           </TouchableOpacity>
           <TouchableOpacity onPress={() => router.push('/settings')} style={styles.iconBtn}>
             <Feather name="settings" size={18} color={THEME.textSecondary} />
@@ -722,14 +1395,65 @@ export default function MainScreen() {
                   </View>
                   <View style={styles.msgBody}>
                     <Text style={styles.msgRole}>{item.role === 'user' ? 'You' : 'AI'}</Text>
-                    {item.isStreaming && !item.content ? (
+                    {!!item.attachments?.length && (
+                      <View style={styles.attachmentRow}>
+                        {item.attachments.map(a => (
+                          <Image key={a.id} source={{ uri: a.uri }} style={styles.msgAttachment} contentFit="cover" />
+                        ))}
+                      </View>
+                    )}
+                    {item.isStreaming && !item.content && !item.toolCalls?.length ? (
                       <View style={styles.typing}>
                         <View style={[styles.typingDot, styles.typingDot1]} />
                         <View style={[styles.typingDot, styles.typingDot2]} />
                         <View style={[styles.typingDot, styles.typingDot3]} />
                       </View>
-                    ) : (
-                      renderCode(item.content)
+                    ) : item.role === 'assistant' && item.content && item.structured && !item.isStreaming ? (
+                      renderStructured(item)
+                    ) : item.role === 'assistant' && item.toolCalls?.length ? (
+                      renderWithToolCalls(item)
+                    ) : item.role === 'assistant' && item.content ? (
+                      <MarkdownView
+                        content={item.content}
+                        streaming={item.isStreaming}
+                        textStyle={styles.msgText}
+                        citations={item.citations}
+                      />
+                    ) : item.content ? (
+                      <Text style={styles.msgText}>{item.content}</Text>
+                    ) : null}
+                    {item.error && (
+                      <View style={styles.errorBox}>
+                        <View style={styles.errorHeader}>
+                          <Feather name="alert-triangle" size={14} color={THEME.red} />
+                          <Text style={styles.errorTitle}>{item.error.title}</Text>
+                        </View>
+                        <Text style={styles.errorText}>{item.error.message}</Text>
+                        {!!item.error.retryAfter && (
+                          <Text style={styles.errorHint}>Try again in {item.error.retryAfter}s.</Text>
+                        )}
+                        <View style={styles.errorActions}>
+                          <TouchableOpacity
+                            onPress={() => retryMessage(item.id)}
+                            disabled={isLoading}
+                            style={[styles.errorBtn, isLoading && styles.sendBtnDisabled]}
+                          >
+                            <Feather name="refresh-cw" size={12} color={THEME.text} />
+                            <Text style={styles.errorBtnText}>Retry</Text>
+                          </TouchableOpacity>
+                          {item.error.fix && (
+                            <TouchableOpacity
+                              onPress={() => applyErrorFix(item)}
+                              disabled={isLoading}
+                              style={[styles.errorBtn, styles.errorBtnFix, isLoading && styles.sendBtnDisabled]}
+                            >
+                              <Text style={[styles.errorBtnText, styles.errorBtnFixText]}>
+                                {ERROR_FIX_LABELS[item.error.fix]}
+                              </Text>
+                            </TouchableOpacity>
+                          )}
+                        </View>
+                      </View>
                     )}
                     {!settings.stripThinking && item.role === 'assistant' && item.reasoning?.trim() && (
                       <View style={styles.reasoning}>
@@ -743,11 +1467,36 @@ export default function MainScreen() {
                         </TouchableOpacity>
                         {expandedReasoning[item.id] && (
                           <View style={styles.reasoningBody}>
-                            {renderCode(item.reasoning)}
+                            <MarkdownView content={item.reasoning} streaming={item.isStreaming} textStyle={styles.msgText} />
                           </View>
                         )}
                       </View>
                     )}
+                    {!!item.citations?.length && <SourcesPanel citations={item.citations} />}
+                    {!!item.skippedChunks && !item.isStreaming && (
+                      <View style={styles.stoppedRow}>
+                        <Feather name="alert-triangle" size={11} color={THEME.textMuted} />
+                        <Text style={styles.stoppedText}>
+                          {item.skippedChunks} {item.skippedChunks === 1 ? 'chunk' : 'chunks'} could not be parsed, so parts of this reply may be missing
+                        </Text>
+                      </View>
+                    )}
+                    {item.stopped && !item.isStreaming && (
+                      <View style={styles.stoppedRow}>
+                        <Feather name="square" size={11} color={THEME.textMuted} />
+                        <Text style={styles.stoppedText}>Stopped</Text>
+                        {item.id === messages[messages.length - 1]?.id && (
+                          <TouchableOpacity
+                            onPress={() => continueMessage(item.id)}
+                            disabled={isLoading}
+                            style={[styles.errorBtn, isLoading && styles.sendBtnDisabled]}
+                          >
+                            <Feather name="play" size={12} color={THEME.text} />
+                            <Text style={styles.errorBtnText}>Continue</Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    )}
                     {item.metrics && !item.isStreaming && (
                       <View style={styles.metrics}>
                         <Text style={styles.metric}>{item.metrics.tokensPerSecond} tok/s</Text>
@@ -761,14 +1510,128 @@ export default function MainScreen() {
                         )}
                       </View>
                     )}
-                  </View>
-                </View>
-              )}
+                    {!item.isStreaming && (versionCount(item) > 1 || item.content) && (
+                      <View style={styles.msgActions}>
+                        {versionCount(item) > 1 && (
+                          <View style={styles.versionSwitcher}>
+                            <TouchableOpacity
+                              onPress={() => switchMessageVersion(item.id, -1)}
+                              disabled={isLoading || (item.versionIndex ?? 0) === 0}
+                              style={(isLoading || (item.versionIndex ?? 0) === 0) && styles.sendBtnDisabled}
+                              accessibilityLabel="Previous version"
+                            >
+                              <Feather name="chevron-left" size={14} color={THEME.textSecondary} />
+                            </TouchableOpacity>
+                            <Text style={styles.versionText}>
+                              {(item.versionIndex ?? 0) + 1}/{versionCount(item)}
+                            </Text>
+                            <TouchableOpacity
+                              onPress={() => switchMessageVersion(item.id, 1)}
+                              disabled={isLoading || (item.versionIndex ?? 0) >= versionCount(item) - 1}
+                              style={(isLoading || (item.versionIndex ?? 0) >= versionCount(item) - 1) && styles.sendBtnDisabled}
+                              accessibilityLabel="Next version"
+                            >
+                              <Feather name="chevron-right" size={14} color={THEME.textSecondary} />
+                            </TouchableOpacity>
+                          </View>
+                        )}
+                        {item.role === 'assistant' && !item.error ? (
+                          <TouchableOpacity
+                            onPress={() => regenerateMessage(item.id)}
+                            disabled={isLoading}
+                            style={[styles.msgAction, isLoading && styles.sendBtnDisabled]}
+                            accessibilityLabel="Regenerate response"
+                          >
+                            <Feather name="refresh-cw" size={13} color={THEME.textMuted} />
+                          </TouchableOpacity>
+                        ) : item.role === 'user' ? (
+                          <TouchableOpacity
+                            onPress={() => startEditing(item)}
+                            disabled={isLoading}
+                            style={[styles.msgAction, isLoading && styles.sendBtnDisabled]}
+                            accessibilityLabel="Edit message"
+                          >
+                            <Feather name="edit-2" size={13} color={THEME.textMuted} />
+                          </TouchableOpacity>
+                        ) : null}
+                      </View>
+                    )}
+                  </View>
+                </View>
+              )}
             />
 
             {/* Composer */}
             <View style={[styles.composer, { paddingBottom: Math.max(insets.bottom, 12) }]}>
+              {editingMessageId && (
+                <View style={styles.editBanner}>
+                  <Feather name="edit-2" size={12} color={THEME.orange} />
+                  <Text style={styles.editBannerText}>Editing message — sending starts a new version</Text>
+                  <TouchableOpacity onPress={cancelEditing} accessibilityLabel="Cancel editing">
+                    <Feather name="x" size={14} color={THEME.textMuted} />
+                  </TouchableOpacity>
+                </View>
+              )}
+              {pendingAttachments.length > 0 && (
+                <View style={styles.pendingAttachments}>
+                  {pendingAttachments.map(a => (
+                    <View key={a.id} style={styles.pendingAttachment}>
+                      <Image source={{ uri: a.uri }} style={styles.pendingAttachmentImage} contentFit="cover" />
+                      <TouchableOpacity
+                        onPress={() => setPendingAttachments(prev => prev.filter(p => p.id !== a.id))}
+                        style={styles.pendingAttachmentRemove}
+                        accessibilityLabel="Remove image"
+                      >
+                        <Feather name="x" size={10} color={THEME.blanc} />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                  {!canAttachImages && (
+                    <Text style={styles.pendingAttachmentHint}>This model can’t see images</Text>
+                  )}
+                </View>
+              )}
+              {(activePersona || responseSchema) && (
+                <View style={styles.chipRow}>
+                  {activePersona && (
+                    <TouchableOpacity style={styles.personaChip} onPress={() => setShowPersonas(true)}>
+                      <Feather name="user-check" size={12} color={THEME.red} />
+                      <Text style={styles.personaChipText} numberOfLines={1}>{activePersona.name}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {responseSchema && (
+                    <TouchableOpacity style={styles.personaChip} onPress={() => setShowSchemas(true)}>
+                      <Feather name={supportsResponseSchema ? 'code' : 'alert-triangle'} size={12} color={THEME.red} />
+                      <Text style={styles.personaChipText} numberOfLines={1}>
+                        JSON: {responseSchema.name}{supportsResponseSchema ? '' : ' (not enforced)'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
               <View style={styles.composerInner}>
+                <TouchableOpacity
+                  onPress={() => setShowPersonas(true)}
+                  style={styles.settingsToggle}
+                  accessibilityLabel="Choose persona"
+                >
+                  <Feather name="users" size={18} color={activePersona ? THEME.red : THEME.textMuted} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => setShowSchemas(true)}
+                  style={styles.settingsToggle}
+                  accessibilityLabel="JSON mode"
+                >
+                  <Feather name="code" size={18} color={responseSchema ? THEME.red : THEME.textMuted} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleAttach}
+                  disabled={!canAttachImages || isLoading}
+                  style={[styles.settingsToggle, (!canAttachImages || isLoading) && styles.sendBtnDisabled]}
+                  accessibilityLabel="Attach image"
+                >
+                  <Feather name="paperclip" size={18} color={THEME.textMuted} />
+                </TouchableOpacity>
                 <TextInput
                   style={styles.input}
                   placeholder="Ask anything..."
@@ -780,12 +1643,13 @@ export default function MainScreen() {
                   onSubmitEditing={handleSend}
                 />
                 <TouchableOpacity
-                  onPress={handleSend}
-                  disabled={!input.trim() || isLoading}
-                  style={[styles.sendBtn, (!input.trim() || isLoading) && styles.sendBtnDisabled]}
+                  onPress={isLoading ? stopGeneration : handleSend}
+                  disabled={!canSend && !isLoading}
+                  style={[styles.sendBtn, !canSend && !isLoading && styles.sendBtnDisabled]}
+                  accessibilityLabel={isLoading ? 'Stop generating' : 'Send'}
                 >
                   {isLoading ? (
-                    <ActivityIndicator size="small" color={THEME.noir} />
+                    <Feather name="square" size={14} color={THEME.noir} />
                   ) : (
                     <Feather name="arrow-up" size={18} color={THEME.noir} />
                   )}
@@ -802,20 +1666,64 @@ export default function MainScreen() {
               contentContainerStyle={styles.createContent}
               showsVerticalScrollIndicator={false}
             >
-              {/* Generating shimmer card */}
-              {isGenerating && (
-                <Animated.View style={[styles.imageCard, styles.generatingCard, { opacity: shimmerAnim }]}>
+              {/* Job queue: status line, then one card per job, newest first */}
+              {imageJobs.length > 0 && (
+                <View style={styles.jobSummary}>
+                  <Text style={styles.jobSummaryText}>
+                    {(['running', 'queued', 'failed'] as const)
+                      .map(status => [status, imageJobs.filter(j => j.status === status).length] as const)
+                      .filter(([, count]) => count > 0)
+                      .map(([status, count]) => `${count} ${status}`)
+                      .join(' · ')}
+                  </Text>
+                  <TouchableOpacity onPress={() => jobQueue.cancelAll()}>
+                    <Text style={styles.jobSummaryAction}>Cancel all</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+              {[...imageJobs].reverse().map(job => (
+                <Animated.View
+                  key={job.id}
+                  style={[
+                    styles.imageCard,
+                    styles.generatingCard,
+                    job.status === 'running' ? { opacity: shimmerAnim } : styles.jobCardIdle,
+                    job.status === 'failed' && styles.jobCardFailed,
+                  ]}
+                >
                   <View style={styles.generatingContent}>
-                    <View style={styles.generatingIconRing}>
-                      <Feather name="zap" size={26} color={THEME.orange} />
+                    <View style={[styles.generatingIconRing, job.status === 'failed' && styles.jobIconFailed]}>
+                      <Feather
+                        name={job.status === 'running' ? 'zap' : job.status === 'queued' ? 'clock' : 'alert-triangle'}
+                        size={26}
+                        color={job.status === 'failed' ? THEME.red : THEME.orange}
+                      />
                     </View>
-                    <Text style={styles.generatingLabel}>Creating your image…</Text>
-                    <Text style={styles.generatingPrompt} numberOfLines={2}>{imagePrompt}</Text>
+                    <Text style={styles.generatingLabel}>
+                      {job.status === 'running'
+                        ? job.payload.kind === 'generate' ? 'Creating your image…' : 'Working on your image…'
+                        : job.status === 'queued' ? 'Queued' : 'Failed'}
+                    </Text>
+                    <Text style={styles.generatingPrompt} numberOfLines={2}>{job.label}</Text>
+                    {job.error && <Text style={styles.jobError} numberOfLines={3}>{job.error}</Text>}
+                    {job.status === 'failed' && (
+                      <TouchableOpacity onPress={() => jobQueue.retry(job.id)} style={styles.jobRetry}>
+                        <Feather name="rotate-cw" size={14} color={THEME.noir} />
+                        <Text style={styles.jobRetryText}>Retry</Text>
+                      </TouchableOpacity>
+                    )}
                   </View>
+                  <TouchableOpacity
+                    onPress={() => jobQueue.cancel(job.id)}
+                    style={styles.jobCancel}
+                    accessibilityLabel={job.status === 'failed' ? 'Dismiss' : 'Cancel'}
+                  >
+                    <Feather name="x" size={16} color={THEME.textSecondary} />
+                  </TouchableOpacity>
                 </Animated.View>
-              )}
+              ))}
 
-              {images.length === 0 && !isGenerating ? (
+              {images.length === 0 && !imageJobs.length ? (
                 <View style={styles.createEmpty}>
                   {/* Decorative icon cluster */}
                   <View style={styles.createHeroWrapper}>
@@ -849,19 +1757,51 @@ export default function MainScreen() {
                 </View>
               ) : (
                 <View style={styles.imageGrid}>
-                  {images.map(img => (
+                  {imageGroups.map(group => group.length > 1 ? (
+                    <View key={group[0].batchId} style={styles.imageCard}>
+                      <View style={styles.variantGrid}>
+                        {group.map(img => (
+                          <TouchableOpacity
+                            key={img.id}
+                            activeOpacity={0.9}
+                            onPress={() => setSelectedImage(img)}
+                            style={styles.variantCell}
+                          >
+                            <Image
+                              source={{ uri: img.imageData }}
+                              style={[styles.image, { aspectRatio: (img.width || 1) / (img.height || 1) }]}
+                              contentFit="cover"
+                            />
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                      <View style={styles.variantFooter}>
+                        <Text style={styles.imagePrompt} numberOfLines={2}>{group[0].prompt}</Text>
+                        <Text style={styles.variantMeta}>{group.length} variants · tap one to remix or edit</Text>
+                      </View>
+                    </View>
+                  ) : group.map(img => (
                     <View key={img.id} style={styles.imageCard}>
-                      <Image
-                        source={{ uri: img.imageData }}
-                        style={[styles.image, { aspectRatio: (img.width || 16) / (img.height || 9) }]}
-                        contentFit="cover"
-                      />
+                      <TouchableOpacity activeOpacity={0.9} onPress={() => setSelectedImage(img)}>
+                        <Image
+                          source={{ uri: img.imageData }}
+                          style={[styles.image, { aspectRatio: (img.width || 16) / (img.height || 9) }]}
+                          contentFit="cover"
+                        />
+                      </TouchableOpacity>
                       {/* Gradient-simulated overlay */}
                       <View style={styles.imageOverlay}>
                         <View style={styles.imageOverlayTop} />
                         <View style={styles.imageOverlayBottom}>
                           <Text style={styles.imagePrompt} numberOfLines={2}>{img.prompt}</Text>
                           <View style={styles.imageActions}>
+                            <TouchableOpacity
+                              onPress={() => openImageTools([toImageToolSource(img)])}
+                              style={styles.imageActionBtn}
+                              accessibilityLabel="Edit image"
+                            >
+                              <Feather name="edit-3" size={15} color={THEME.blanc} />
+                            </TouchableOpacity>
                             <TouchableOpacity
                               onPress={() => downloadImage(img)}
                               style={styles.imageActionBtn}
@@ -880,82 +1820,19 @@ export default function MainScreen() {
                         </View>
                       </View>
                     </View>
-                  ))}
+                  )))}
                 </View>
               )}
 
               {/* Image Settings Panel */}
               {imageSettings && (
-                <View style={styles.imgSettings}>
-                  <View style={styles.imgSettingsHeader}>
-                    <View style={styles.imgSettingsTitleRow}>
-                      <Feather name="sliders" size={14} color={THEME.orange} />
-                      <Text style={styles.imgSettingsTitle}>Generation Settings</Text>
-                    </View>
-                    <TouchableOpacity onPress={() => setImageSettings(false)} style={styles.imgSettingsClose}>
-                      <Feather name="x" size={16} color={THEME.textSecondary} />
-                    </TouchableOpacity>
-                  </View>
-
-                  {/* Aspect Ratio - visual ratio icons */}
-                  <Text style={styles.settingLabel}>Aspect Ratio</Text>
-                  <View style={styles.ratioRow}>
-                    {[
-                      { label: '1:1', w: 1024, h: 1024, boxW: 28, boxH: 28 },
-                      { label: '9:16', w: 576, h: 1024, boxW: 20, boxH: 28 },
-                      { label: '16:9', w: 1024, h: 576, boxW: 28, boxH: 17 },
-                    ].map(s => {
-                      const active = settings.imageWidth === s.w && settings.imageHeight === s.h;
-                      return (
-                        <TouchableOpacity
-                          key={s.label}
-                          onPress={() => {
-                            updateSettings({ imageWidth: s.w, imageHeight: s.h });
-                            Haptics.selectionAsync();
-                          }}
-                          style={[styles.ratioBtn, active && styles.ratioBtnActive]}
-                        >
-                          <View style={[
-                            styles.ratioIcon,
-                            { width: s.boxW, height: s.boxH },
-                            active && styles.ratioIconActive,
-                          ]} />
-                          <Text style={[styles.ratioBtnText, active && styles.ratioBtnTextActive]}>{s.label}</Text>
-                        </TouchableOpacity>
-                      );
-                    })}
-                  </View>
-
-                  <View style={styles.settingRow}>
-                    <Text style={styles.settingLabel}>Steps</Text>
-                    <Text style={styles.settingValue}>{settings.imageSteps || 8}</Text>
-                  </View>
-                  <Slider
-                    value={settings.imageSteps || 8}
-                    minimumValue={1}
-                    maximumValue={8}
-                    step={1}
-                    onValueChange={v => updateSettings({ imageSteps: v })}
-                    minimumTrackTintColor={THEME.orange}
-                    maximumTrackTintColor={THEME.border}
-                    thumbTintColor={THEME.orange}
-                  />
-
-                  <View style={styles.settingRow}>
-                    <Text style={styles.settingLabel}>Guidance</Text>
-                    <Text style={styles.settingValue}>{(settings.imageGuidanceScale || 7.5).toFixed(1)}</Text>
-                  </View>
-                  <Slider
-                    value={settings.imageGuidanceScale || 7.5}
-                    minimumValue={1}
-                    maximumValue={20}
-                    step={0.5}
-                    onValueChange={v => updateSettings({ imageGuidanceScale: v })}
-                    minimumTrackTintColor={THEME.orange}
-                    maximumTrackTintColor={THEME.border}
-                    thumbTintColor={THEME.orange}
-                  />
-                </View>
+                <ImageSettingsPanel
+                  model={imageModels.find(m => m.id === settings.imageModel)}
+                  settings={settings}
+                  stylePresets={imageStyles}
+                  onChange={updateSettings}
+                  onClose={() => setImageSettings(false)}
+                />
               )}
             </ScrollView>
 
@@ -971,6 +1848,13 @@ export default function MainScreen() {
                 >
                   <Feather name="sliders" size={18} color={imageSettings ? THEME.orange : THEME.textMuted} />
                 </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => openImageTools([])}
+                  style={styles.settingsToggle}
+                  accessibilityLabel="Edit a photo"
+                >
+                  <Feather name="edit-3" size={18} color={THEME.textMuted} />
+                </TouchableOpacity>
                 <TextInput
                   style={styles.input}
                   placeholder="Describe an image…"
@@ -978,18 +1862,13 @@ export default function MainScreen() {
                   value={imagePrompt}
                   onChangeText={setImagePrompt}
                   multiline
-                  editable={!isGenerating}
                 />
                 <TouchableOpacity
                   onPress={handleGenerate}
-                  disabled={!imagePrompt.trim() || isGenerating}
-                  style={[styles.sendBtnOrange, (!imagePrompt.trim() || isGenerating) && styles.sendBtnDisabled]}
+                  disabled={!imagePrompt.trim()}
+                  style={[styles.sendBtnOrange, !imagePrompt.trim() && styles.sendBtnDisabled]}
                 >
-                  {isGenerating ? (
-                    <ActivityIndicator size="small" color={THEME.noir} />
-                  ) : (
-                    <Feather name="zap" size={18} color={THEME.noir} />
-                  )}
+                  <Feather name="zap" size={18} color={THEME.noir} />
                 </TouchableOpacity>
               </View>
             </View>
@@ -997,6 +1876,71 @@ export default function MainScreen() {
         )}
       </KeyboardAvoidingView>
 
+      <ConversationDrawer
+        visible={showConversations}
+        conversations={conversations}
+        activeId={activeConversationId}
+        getModelName={getModelName}
+        onClose={() => setShowConversations(false)}
+        onNew={startNewConversation}
+        onSelect={resumeConversation}
+        onRename={renameConversation}
+        onDelete={deleteConversation}
+        onExport={exportConversationFile}
+        onImport={importConversation}
+      />
+
+      <ApiKeyPrompt
+        visible={showKeyPrompt}
+        onClose={() => setShowKeyPrompt(false)}
+        onSaved={() => {
+          setShowKeyPrompt(false);
+          loadModels();
+        }}
+      />
+
+      <PersonaPicker
+        visible={showPersonas}
+        personas={personas}
+        activeId={activePersona?.id}
+        onSelect={selectPersona}
+        onManage={() => {
+          setShowPersonas(false);
+          router.push('/settings');
+        }}
+        onClose={() => setShowPersonas(false)}
+      />
+
+      <SchemaPicker
+        visible={showSchemas}
+        active={responseSchema}
+        supported={supportsResponseSchema}
+        onSelect={selectResponseSchema}
+        onClose={() => setShowSchemas(false)}
+      />
+
+      <ImageDetailModal
+        image={selectedImage}
+        getModelName={getModelName}
+        getImage={id => images.find(i => i.id === id)}
+        onClose={() => setSelectedImage(null)}
+        onOpen={setSelectedImage}
+        onRerun={rerunImage}
+        onReuseSeed={reuseSeed}
+        onEdit={image => openImageTools([toImageToolSource(image)])}
+        onDelete={removeImage}
+        onShare={downloadImage}
+      />
+
+      <ImageToolsSheet
+        initialSources={toolSources}
+        gallery={images}
+        editModels={editModels}
+        getModelName={getModelName}
+        onRun={runImageJob}
+        onClose={() => setToolSources(null)}
+      />
+
       {/* Model Picker Modal */}
       <Modal visible={showModels} animationType="slide" presentationStyle="formSheet">
         <View style={styles.modal}>
@@ -1018,7 +1962,7 @@ export default function MainScreen() {
                     if (activeTab === 'chat') {
                       updateSettings({ model: item.id });
                     } else {
-                      updateSettings({ imageModel: item.id });
+                      updateSettings({ imageModel: item.id, ...imageModelDefaults(item) });
                     }
                     setShowModels(false);
                   }}
@@ -1281,6 +2225,18 @@ const styles = StyleSheet.create({
     marginTop: 10,
     gap: 6,
   },
+  stoppedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+    gap: 6,
+  },
+  stoppedText: {
+    flexShrink: 1,
+    fontSize: 11,
+    color: THEME.textMuted,
+    marginRight: 4,
+  },
   metric: {
     fontSize: 11,
     color: THEME.textMuted,
@@ -1290,21 +2246,219 @@ const styles = StyleSheet.create({
     fontSize: 11,
   },
 
-  // Code
-  codeBlock: {
-    backgroundColor: '#0a0a0c',
-    borderRadius: 8,
+  // Message actions & versions
+  msgActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    gap: 10,
+  },
+  msgAction: {
+    padding: 2,
+  },
+  versionSwitcher: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  versionText: {
+    fontSize: 11,
+    color: THEME.textSecondary,
+    fontVariant: ['tabular-nums'],
+  },
+  contextMeter: {
+    alignItems: 'center',
+    gap: 3,
+    marginRight: 4,
+  },
+  contextTrack: {
+    width: 28,
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: THEME.surfaceActive,
+    overflow: 'hidden',
+  },
+  contextFill: {
+    height: 3,
+  },
+  contextText: {
+    fontSize: 10,
+    color: THEME.textMuted,
+    fontVariant: ['tabular-nums'],
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  personaChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: THEME.redLight,
+    maxWidth: '70%',
+  },
+  personaChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.red,
+  },
+  structured: {
+    gap: 6,
+  },
+  structuredHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  structuredStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textSecondary,
+  },
+  structuredStatusInvalid: {
+    color: THEME.red,
+  },
+  structuredError: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+    lineHeight: 17,
+  },
+  structuredTree: {
     padding: 12,
-    marginVertical: 8,
+    borderRadius: 10,
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  editBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: THEME.glowOrange,
+  },
+  editBannerText: {
+    flex: 1,
+    fontSize: 12,
+    color: THEME.textSecondary,
+  },
+
+  // Image attachments
+  attachmentRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  msgAttachment: {
+    width: 96,
+    height: 96,
+    borderRadius: 8,
+    backgroundColor: THEME.surfaceHover,
+  },
+  pendingAttachments: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  pendingAttachment: {
+    width: 52,
+    height: 52,
+  },
+  pendingAttachmentImage: {
+    width: 52,
+    height: 52,
+    borderRadius: 8,
     borderWidth: 1,
     borderColor: THEME.border,
   },
-  codeText: {
-    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  pendingAttachmentRemove: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: THEME.surfaceActive,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pendingAttachmentHint: {
+    fontSize: 11,
+    color: THEME.textMuted,
+  },
+
+  // Inline request errors
+  errorBox: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: THEME.redLight,
+    borderWidth: 1,
+    borderColor: THEME.borderAccent,
+  },
+  errorHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  errorTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  errorText: {
     fontSize: 13,
+    lineHeight: 19,
+    color: THEME.textSecondary,
+  },
+  errorHint: {
+    fontSize: 12,
+    color: THEME.textMuted,
+    marginTop: 4,
+  },
+  errorActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  errorBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 8,
+    backgroundColor: THEME.surfaceHover,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  errorBtnText: {
+    fontSize: 12,
+    fontWeight: '600',
     color: THEME.text,
-    lineHeight: 20,
   },
+  errorBtnFix: {
+    backgroundColor: THEME.red,
+    borderColor: THEME.red,
+  },
+  errorBtnFixText: {
+    color: THEME.noir,
+  },
+
+  // Code
   reasoning: {
     marginTop: 10,
     borderWidth: 1,
@@ -1426,6 +2580,23 @@ const styles = StyleSheet.create({
     fontSize: 13,
     lineHeight: 18,
   },
+  variantGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    padding: 1,
+  },
+  variantCell: {
+    width: '50%',
+    padding: 1,
+  },
+  variantFooter: {
+    padding: 12,
+    gap: 4,
+  },
+  variantMeta: {
+    fontSize: 11,
+    color: THEME.textMuted,
+  },
   imageActionBtn: {
     width: 34,
     height: 34,
@@ -1437,100 +2608,6 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
 
-  // Image Settings
-  imgSettings: {
-    backgroundColor: THEME.surface,
-    marginHorizontal: 0,
-    marginTop: 16,
-    padding: 18,
-    borderRadius: 16,
-    borderWidth: 1,
-    borderColor: THEME.border,
-  },
-  imgSettingsHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 18,
-  },
-  imgSettingsTitleRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 7,
-  },
-  imgSettingsTitle: {
-    fontSize: 13,
-    fontWeight: '600',
-    color: THEME.text,
-    letterSpacing: 0.4,
-  },
-  imgSettingsClose: {
-    width: 28,
-    height: 28,
-    borderRadius: 8,
-    backgroundColor: THEME.surfaceHover,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  settingRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginBottom: 4,
-    marginTop: 14,
-  },
-  settingLabel: {
-    fontSize: 12,
-    color: THEME.textSecondary,
-    fontWeight: '500',
-    textTransform: 'uppercase',
-    letterSpacing: 0.5,
-  },
-  settingValue: {
-    fontSize: 13,
-    color: THEME.orange,
-    fontWeight: '700',
-  },
-
-  // Aspect ratio buttons — visual icons
-  ratioRow: {
-    flexDirection: 'row',
-    gap: 10,
-    marginTop: 10,
-    marginBottom: 4,
-  },
-  ratioBtn: {
-    flex: 1,
-    alignItems: 'center',
-    paddingVertical: 12,
-    borderRadius: 12,
-    backgroundColor: THEME.surfaceHover,
-    borderWidth: 1,
-    borderColor: 'transparent',
-    gap: 8,
-  },
-  ratioBtnActive: {
-    borderColor: THEME.orangeBorder,
-    backgroundColor: THEME.glowOrange,
-  },
-  ratioIcon: {
-    borderRadius: 3,
-    borderWidth: 1.5,
-    borderColor: THEME.textMuted,
-  },
-  ratioIconActive: {
-    borderColor: THEME.orange,
-    backgroundColor: THEME.orangeLight,
-  },
-  ratioBtnText: {
-    fontSize: 11,
-    color: THEME.textSecondary,
-    fontWeight: '600',
-    letterSpacing: 0.2,
-  },
-  ratioBtnTextActive: {
-    color: THEME.orange,
-  },
-
   // Shimmer generating card
   generatingCard: {
     marginBottom: 16,
@@ -1568,6 +2645,66 @@ const styles = StyleSheet.create({
     lineHeight: 19,
   },
 
+  // Image job queue
+  jobSummary: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  jobSummaryText: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+    fontWeight: '500',
+  },
+  jobSummaryAction: {
+    fontSize: 12,
+    color: THEME.orange,
+    fontWeight: '600',
+  },
+  jobCardIdle: {
+    minHeight: 0,
+    borderColor: THEME.border,
+  },
+  jobCardFailed: {
+    borderColor: THEME.borderAccent,
+  },
+  jobIconFailed: {
+    backgroundColor: THEME.glowRed,
+    borderColor: THEME.borderAccent,
+  },
+  jobError: {
+    fontSize: 12,
+    color: THEME.red,
+    textAlign: 'center',
+    lineHeight: 17,
+  },
+  jobRetry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: THEME.orange,
+  },
+  jobRetryText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: THEME.noir,
+  },
+  jobCancel: {
+    position: 'absolute',
+    top: 10,
+    right: 10,
+    width: 28,
+    height: 28,
+    borderRadius: 8,
+    backgroundColor: THEME.surfaceHover,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
   // Create tab empty state
   createHeroWrapper: {
     width: 100,
@@ -8,10 +8,12 @@ import {
   Alert,
   Modal,
   FlatList,
-  Switch
+  Switch,
+  TextInput,
+  Platform
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useRouter } from 'expo-router';
+import { useRouter, useFocusEffect } from 'expo-router';
 import { Feather } from '@expo/vector-icons';
 import Slider from '@react-native-community/slider';
 import { StatusBar } from 'expo-status-bar';
@@ -19,7 +21,13 @@ import { DEFAULT_SETTINGS } from '@/constants/settings';
 import { AppSettings } from '@/types/settings';
 import { VeniceModel } from '@/types/venice';
 import { loadStoredSettings, persistSettings } from '@/utils/settingsStorage';
-import { VENICE_MODELS_ENDPOINT } from '@/constants/venice';
+import { getConstraintNumber, getModelMaxTokens } from '@/utils/modelConstraints';
+import { loadApiKey, persistApiKey, maskApiKey } from '@/utils/apiKeyStorage';
+import { veniceClient } from '@/utils/veniceClient';
+import { Persona } from '@/types/persona';
+import { loadPersonas, persistPersonas } from '@/utils/personaStorage';
+import PersonaEditor from '@/components/PersonaEditor';
+import SettingsProfiles from '@/components/SettingsProfiles';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // FRENCH DESIGNER THEME - Matching index.tsx
@@ -43,40 +51,31 @@ const THEME = {
   glowRed: 'rgba(255, 71, 87, 0.15)',
 };
 
-const getConstraintNumber = (constraint: any): number | undefined => {
-  if (constraint == null) return undefined;
-  if (typeof constraint === 'number') return constraint;
-  if (typeof constraint.default === 'number') return constraint.default;
-  if (typeof constraint.max === 'number') return constraint.max;
-  return undefined;
-};
-
-const getModelMaxTokens = (model?: VeniceModel | null): number | undefined => {
-  if (!model) return undefined;
-  const c = model.model_spec?.constraints || {};
-  for (const key of ['max_output_tokens', 'maxOutputTokens', 'max_tokens', 'response_tokens']) {
-    const val = getConstraintNumber((c as any)[key]);
-    if (val && val > 0) return val;
-  }
-  return undefined;
-};
-
 export default function SettingsScreen() {
   const router = useRouter();
   const [models, setModels] = useState<VeniceModel[]>([]);
   const [showModels, setShowModels] = useState(false);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [apiKey, setApiKey] = useState('');
+  const [apiKeyDraft, setApiKeyDraft] = useState('');
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
+  const [showPersonaEditor, setShowPersonaEditor] = useState(false);
+
+  // Reload on focus too: the usage screen opened from here writes the spending cap.
+  useFocusEffect(useCallback(() => {
+    loadStoredSettings().then(setSettings);
+  }, []));
 
   useEffect(() => {
-    loadStoredSettings<AppSettings>(DEFAULT_SETTINGS).then(setSettings);
+    loadApiKey().then(setApiKey);
+    loadPersonas().then(setPersonas);
     loadModels();
   }, []);
 
   const loadModels = async () => {
     try {
-      const res = await fetch(VENICE_MODELS_ENDPOINT);
-      const data = await res.json();
-      setModels(Array.isArray(data?.data) ? data.data : []);
+      setModels(await veniceClient.listModels());
     } catch (e) {
       console.error('Failed to load models:', e);
     }
@@ -90,6 +89,50 @@ export default function SettingsScreen() {
     });
   }, []);
 
+  const applySettings = useCallback((next: AppSettings) => {
+    setSettings(next);
+    persistSettings(next);
+  }, []);
+
+  const saveApiKey = useCallback(async (key: string) => {
+    await persistApiKey(key);
+    setApiKey(key.trim());
+    setApiKeyDraft('');
+    loadModels();
+  }, []);
+
+  const openPersonaEditor = (persona: Persona | null) => {
+    setEditingPersona(persona);
+    setShowPersonaEditor(true);
+  };
+
+  const savePersona = useCallback((persona: Persona) => {
+    setPersonas(prev => {
+      const next = prev.some(p => p.id === persona.id)
+        ? prev.map(p => (p.id === persona.id ? persona : p))
+        : [...prev, persona];
+      persistPersonas(next);
+      return next;
+    });
+    setShowPersonaEditor(false);
+  }, []);
+
+  const deletePersona = useCallback((persona: Persona) => {
+    const remove = () => setPersonas(prev => {
+      const next = prev.filter(p => p.id !== persona.id);
+      persistPersonas(next);
+      return next;
+    });
+    if (Platform.OS === 'web') {
+      if (typeof window !== 'undefined' && window.confirm(`Delete "${persona.name}"?`)) remove();
+      return;
+    }
+    Alert.alert('Delete persona', `Delete "${persona.name}"? Conversations that use it keep their copy.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: remove },
+    ]);
+  }, []);
+
   const handleModelSelect = useCallback((id: string) => {
     const model = models.find(m => m.id === id);
     if (!model) return;
@@ -179,6 +222,55 @@ export default function SettingsScreen() {
       </View>
 
       <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        {/* API Key */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>API Key</Text>
+          <View style={styles.card}>
+            <Text style={styles.switchLabel}>
+              {apiKey ? `Using your key ${maskApiKey(apiKey)}` : 'Using the server’s shared key'}
+            </Text>
+            <Text style={styles.switchHint}>
+              Stored on this device only and sent with each request to the vGPT server.
+            </Text>
+            <TextInput
+              style={styles.keyInput}
+              placeholder={apiKey ? 'Replace Venice API key' : 'Venice API key'}
+              placeholderTextColor={THEME.textMuted}
+              value={apiKeyDraft}
+              onChangeText={setApiKeyDraft}
+              onSubmitEditing={() => apiKeyDraft.trim() && saveApiKey(apiKeyDraft)}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+            <View style={styles.keyActions}>
+              {!!apiKey && (
+                <TouchableOpacity onPress={() => saveApiKey('')} style={styles.keyBtnSecondary}>
+                  <Text style={styles.keyBtnSecondaryText}>Remove</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                onPress={() => saveApiKey(apiKeyDraft)}
+                disabled={!apiKeyDraft.trim()}
+                style={[styles.keyBtn, !apiKeyDraft.trim() && styles.keyBtnDisabled]}
+              >
+                <Text style={styles.keyBtnText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+
+        {/* Usage */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Usage</Text>
+          <TouchableOpacity onPress={() => router.push('/usage')} style={styles.modelBtn}>
+            <Text style={styles.modelBtnText}>
+              {settings.spendingCapUsd ? `Spending & balance · cap $${settings.spendingCapUsd}` : 'Spending & balance'}
+            </Text>
+            <Feather name="chevron-right" size={18} color={THEME.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
         {/* Model Selection */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Model</Text>
@@ -188,6 +280,50 @@ export default function SettingsScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Personas */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Personas</Text>
+          <View style={styles.card}>
+            {personas.length === 0 && (
+              <Text style={styles.switchHint}>
+                Save system prompts you reuse, then pick one per conversation from the chat composer.
+              </Text>
+            )}
+            {personas.map((persona, i) => (
+              <View key={persona.id}>
+                {i > 0 && <View style={styles.divider} />}
+                <View style={styles.personaRow}>
+                  <TouchableOpacity style={styles.personaInfo} onPress={() => openPersonaEditor(persona)}>
+                    <Text style={styles.switchLabel}>{persona.name}</Text>
+                    <Text style={styles.switchHint} numberOfLines={1}>
+                      {[persona.model && getModelName(persona.model), persona.sampling && 'custom sampling']
+                        .filter(Boolean)
+                        .join(' · ') || persona.systemPrompt}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => deletePersona(persona)}
+                    style={styles.personaDelete}
+                    accessibilityLabel="Delete persona"
+                  >
+                    <Feather name="trash-2" size={15} color={THEME.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+            <TouchableOpacity onPress={() => openPersonaEditor(null)} style={styles.personaAdd}>
+              <Feather name="plus" size={15} color={THEME.red} />
+              <Text style={styles.personaAddText}>New persona</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Profiles */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Profiles</Text>
+          <SettingsProfiles settings={settings} getModelName={getModelName} onApply={applySettings} />
+        </View>
+
         {/* Web Search */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Web Search</Text>
@@ -206,6 +342,32 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        {/* Context */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Long Conversations</Text>
+          <View style={styles.segmented}>
+            {([
+              { key: 'trim', label: 'DROP OLDEST' },
+              { key: 'summarize', label: 'SUMMARIZE' },
+            ] as const).map(opt => (
+              <TouchableOpacity
+                key={opt.key}
+                onPress={() => updateSettings({ contextStrategy: opt.key })}
+                style={[styles.segment, settings.contextStrategy === opt.key && styles.segmentActive]}
+              >
+                <Text style={[styles.segmentText, settings.contextStrategy === opt.key && styles.segmentTextActive]}>
+                  {opt.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.sectionHint}>
+            {settings.contextStrategy === 'summarize'
+              ? 'When a thread outgrows the model’s context, older turns are summarized by the cheapest text model.'
+              : 'When a thread outgrows the model’s context, the oldest turns are left out of the request.'}
+          </Text>
+        </View>
+
         {/* Capabilities */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Capabilities</Text>
@@ -229,6 +391,32 @@ export default function SettingsScreen() {
                 thumbColor={THEME.blanc}
               />
             </View>
+            <View style={styles.divider} />
+            <View style={styles.switchRow}>
+              <View>
+                <Text style={styles.switchLabel}>Show Sources</Text>
+                <Text style={styles.switchHint}>List search results under answers</Text>
+              </View>
+              <Switch
+                value={settings.includeSearchResults}
+                onValueChange={v => updateSettings({ includeSearchResults: v })}
+                trackColor={{ false: THEME.border, true: THEME.red }}
+                thumbColor={THEME.blanc}
+              />
+            </View>
+            <View style={styles.divider} />
+            <View style={styles.switchRow}>
+              <View>
+                <Text style={styles.switchLabel}>Tools</Text>
+                <Text style={styles.switchHint}>Calculator, clock and conversation search</Text>
+              </View>
+              <Switch
+                value={settings.enableTools}
+                onValueChange={v => updateSettings({ enableTools: v })}
+                trackColor={{ false: THEME.border, true: THEME.red }}
+                thumbColor={THEME.blanc}
+              />
+            </View>
           </View>
         </View>
 
@@ -280,6 +468,15 @@ export default function SettingsScreen() {
         <View style={{ height: 40 }} />
       </ScrollView>
 
+      <PersonaEditor
+        visible={showPersonaEditor}
+        persona={editingPersona}
+        settings={settings}
+        getModelName={getModelName}
+        onSave={savePersona}
+        onClose={() => setShowPersonaEditor(false)}
+      />
+
       {/* Model Picker */}
       <Modal visible={showModels} animationType="slide" presentationStyle="formSheet">
         <View style={styles.modal}>
@@ -375,6 +572,12 @@ const styles = StyleSheet.create({
   },
 
   // Card
+  sectionHint: {
+    fontSize: 12,
+    color: THEME.textMuted,
+    marginTop: 8,
+    lineHeight: 17,
+  },
   card: {
     backgroundColor: THEME.surface,
     borderRadius: 12,
@@ -448,6 +651,74 @@ const styles = StyleSheet.create({
     marginVertical: 14,
   },
 
+  // Personas
+  personaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  personaInfo: {
+    flex: 1,
+  },
+  personaDelete: {
+    padding: 4,
+  },
+  personaAdd: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 14,
+  },
+  personaAddText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: THEME.red,
+  },
+
+  // API Key
+  keyInput: {
+    color: THEME.text,
+    fontSize: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginTop: 14,
+    borderRadius: 10,
+    backgroundColor: THEME.noir,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  keyActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  keyBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: THEME.red,
+  },
+  keyBtnDisabled: {
+    opacity: 0.3,
+  },
+  keyBtnText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: THEME.noir,
+  },
+  keyBtnSecondary: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: THEME.surfaceHover,
+  },
+  keyBtnSecondaryText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: THEME.textSecondary,
+  },
+
   // Slider
   sliderItem: {
     marginBottom: 18,
@@ -0,0 +1,478 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Platform
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Feather } from '@expo/vector-icons';
+import { StatusBar } from 'expo-status-bar';
+import { DEFAULT_SETTINGS } from '@/constants/settings';
+import { AppSettings } from '@/types/settings';
+import { UsageEntry, UsageTotals } from '@/types/usage';
+import { VeniceBalance } from '@/types/venice';
+import { loadStoredSettings, persistSettings } from '@/utils/settingsStorage';
+import { loadConversations } from '@/utils/conversationStorage';
+import { checkSpendingCap, clearUsage, dayKey, groupUsage, loadUsage, periodStart, sumUsage } from '@/utils/usageLedger';
+import { formatUsd } from '@/utils/pricing';
+import { veniceClient } from '@/utils/veniceClient';
+import { toMessageError } from '@/utils/veniceErrors';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  red: '#FF4757',
+  orange: '#FF7F50',
+  noir: '#0C0C0E',
+  surface: '#141416',
+  surfaceHover: '#1C1C1F',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  border: 'rgba(255, 255, 255, 0.06)',
+  glowRed: 'rgba(255, 71, 87, 0.15)',
+};
+
+const DAYS_SHOWN = 14;
+const ROWS_SHOWN = 8;
+
+const formatTokens = (n: number) => (n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n));
+
+const describeTotals = (t: UsageTotals) =>
+  [
+    `${t.calls} ${t.calls === 1 ? 'call' : 'calls'}`,
+    t.inputTokens + t.outputTokens > 0 && `${formatTokens(t.inputTokens + t.outputTokens)} tokens`,
+    t.images > 0 && `${t.images} ${t.images === 1 ? 'image' : 'images'}`,
+  ].filter(Boolean).join(' · ');
+
+export default function UsageScreen() {
+  const router = useRouter();
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [entries, setEntries] = useState<UsageEntry[]>([]);
+  const [titles, setTitles] = useState<Record<string, string>>({});
+  const [balance, setBalance] = useState<VeniceBalance | null>(null);
+  const [balanceError, setBalanceError] = useState('');
+  const [loadingBalance, setLoadingBalance] = useState(false);
+  const [capDraft, setCapDraft] = useState('');
+
+  const loadBalance = useCallback(async () => {
+    setLoadingBalance(true);
+    setBalanceError('');
+    try {
+      setBalance(await veniceClient.getBalance());
+    } catch (e) {
+      setBalanceError(toMessageError(e).message);
+    } finally {
+      setLoadingBalance(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStoredSettings().then(stored => {
+      setSettings(stored);
+      setCapDraft(stored.spendingCapUsd ? String(stored.spendingCapUsd) : '');
+    });
+    loadUsage().then(setEntries);
+    loadConversations().then(list => setTitles(Object.fromEntries(list.map(c => [c.id, c.title]))));
+    loadBalance();
+  }, [loadBalance]);
+
+  const updateSettings = useCallback((updates: Partial<AppSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...updates };
+      persistSettings(next);
+      return next;
+    });
+  }, []);
+
+  const saveCap = () => {
+    const amount = Number(capDraft.replace(',', '.'));
+    const spendingCapUsd = Number.isFinite(amount) && amount > 0 ? Math.round(amount * 100) / 100 : 0;
+    updateSettings({ spendingCapUsd });
+    setCapDraft(spendingCapUsd ? String(spendingCapUsd) : '');
+  };
+
+  const confirmClear = () => {
+    const clear = async () => {
+      await clearUsage();
+      setEntries([]);
+    };
+    if (Platform.OS === 'web') {
+      if (typeof window !== 'undefined' && window.confirm('Clear all recorded usage?')) clear();
+      return;
+    }
+    Alert.alert('Clear usage', 'Clear all recorded usage? Your Venice balance is not affected.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: clear },
+    ]);
+  };
+
+  const summary = useMemo(() => {
+    const today = periodStart('day');
+    const month = periodStart('month');
+    return {
+      today: sumUsage(entries.filter(e => e.createdAt >= today)),
+      month: sumUsage(entries.filter(e => e.createdAt >= month)),
+      all: sumUsage(entries),
+      byDay: groupUsage(entries, e => dayKey(e.createdAt))
+        .sort((a, b) => b.key.localeCompare(a.key))
+        .slice(0, DAYS_SHOWN),
+      byModel: groupUsage(entries, e => e.model)
+        .sort((a, b) => b.totals.costUsd - a.totals.costUsd || b.totals.calls - a.totals.calls)
+        .slice(0, ROWS_SHOWN),
+      byConversation: groupUsage(entries, e => e.conversationId)
+        .sort((a, b) => b.totals.costUsd - a.totals.costUsd || b.totals.calls - a.totals.calls)
+        .slice(0, ROWS_SHOWN),
+    };
+  }, [entries]);
+
+  const cap = useMemo(() => checkSpendingCap(entries, settings), [entries, settings]);
+
+  const renderGroup = (title: string, rows: { key: string; totals: UsageTotals }[], label: (key: string) => string) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      <View style={styles.card}>
+        {rows.length === 0 ? (
+          <Text style={styles.hint}>Nothing recorded yet.</Text>
+        ) : rows.map((row, i) => (
+          <View key={row.key} style={[styles.row, i > 0 && styles.rowDivider]}>
+            <View style={styles.rowInfo}>
+              <Text style={styles.rowLabel} numberOfLines={1}>{label(row.key)}</Text>
+              <Text style={styles.hint}>{describeTotals(row.totals)}</Text>
+            </View>
+            <Text style={styles.rowValue}>{formatUsd(row.totals.costUsd)}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+
+  const balances = balance?.balances;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="light" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerBtn}>
+          <Feather name="arrow-left" size={20} color={THEME.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Usage</Text>
+        <TouchableOpacity onPress={confirmClear} style={styles.headerBtn} disabled={!entries.length}>
+          <Feather name="trash-2" size={18} color={entries.length ? THEME.textSecondary : THEME.textMuted} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        {/* Balance */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Venice Balance</Text>
+          <View style={styles.card}>
+            <View style={styles.row}>
+              <View style={styles.rowInfo}>
+                {balances ? (
+                  <>
+                    <Text style={styles.bigValue}>{formatUsd(balances.usd ?? 0)}</Text>
+                    <Text style={styles.hint}>
+                      {[balances.diem != null && `${balances.diem} DIEM`, balances.vcu != null && `${balances.vcu} VCU`]
+                        .filter(Boolean)
+                        .join(' · ') || 'USD'}
+                    </Text>
+                  </>
+                ) : (
+                  <Text style={styles.hint}>{balanceError || 'Loading…'}</Text>
+                )}
+              </View>
+              <TouchableOpacity onPress={loadBalance} disabled={loadingBalance} style={styles.headerBtn}>
+                {loadingBalance ? (
+                  <ActivityIndicator size="small" color={THEME.red} />
+                ) : (
+                  <Feather name="refresh-cw" size={16} color={THEME.textSecondary} />
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+
+        {/* Totals */}
+        <View style={styles.totals}>
+          {[
+            { label: 'Today', totals: summary.today },
+            { label: 'This month', totals: summary.month },
+            { label: 'All time', totals: summary.all },
+          ].map(t => (
+            <View key={t.label} style={styles.totalCard}>
+              <Text style={styles.totalLabel}>{t.label}</Text>
+              <Text style={styles.totalValue}>{formatUsd(t.totals.costUsd)}</Text>
+              <Text style={styles.hint}>{t.totals.calls} calls</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Spending cap */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Spending Cap</Text>
+          <View style={styles.card}>
+            <View style={styles.capRow}>
+              <Text style={styles.capCurrency}>$</Text>
+              <TextInput
+                style={styles.capInput}
+                placeholder="No cap"
+                placeholderTextColor={THEME.textMuted}
+                value={capDraft}
+                onChangeText={setCapDraft}
+                onBlur={saveCap}
+                onSubmitEditing={saveCap}
+                keyboardType="decimal-pad"
+                returnKeyType="done"
+              />
+              <View style={styles.segmented}>
+                {(['day', 'month'] as const).map(period => (
+                  <TouchableOpacity
+                    key={period}
+                    onPress={() => updateSettings({ spendingCapPeriod: period })}
+                    style={[styles.segment, settings.spendingCapPeriod === period && styles.segmentActive]}
+                  >
+                    <Text style={[styles.segmentText, settings.spendingCapPeriod === period && styles.segmentTextActive]}>
+                      {period === 'day' ? 'PER DAY' : 'PER MONTH'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+            <View style={[styles.segmented, styles.capMode]}>
+              {(['warn', 'block'] as const).map(mode => (
+                <TouchableOpacity
+                  key={mode}
+                  onPress={() => updateSettings({ spendingCapMode: mode })}
+                  style={[styles.segment, settings.spendingCapMode === mode && styles.segmentActive]}
+                >
+                  <Text style={[styles.segmentText, settings.spendingCapMode === mode && styles.segmentTextActive]}>
+                    {mode === 'warn' ? 'WARN ME' : 'BLOCK REQUESTS'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {settings.spendingCapUsd > 0 && (
+              <>
+                <View style={styles.capTrack}>
+                  <View
+                    style={[
+                      styles.capFill,
+                      {
+                        width: `${Math.min(cap.spent / cap.limit, 1) * 100}%`,
+                        backgroundColor: cap.spent >= cap.limit ? THEME.red : THEME.orange,
+                      },
+                    ]}
+                  />
+                </View>
+                <Text style={styles.hint}>
+                  {formatUsd(cap.spent)} of {formatUsd(cap.limit)} used {settings.spendingCapPeriod === 'day' ? 'today' : 'this month'}.
+                </Text>
+              </>
+            )}
+            <Text style={[styles.hint, styles.capNote]}>
+              Checked before each chat or image request using the model’s listed prices, so it is an estimate.
+            </Text>
+          </View>
+        </View>
+
+        {renderGroup('By Day', summary.byDay, key =>
+          new Date(`${key}T00:00:00`).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })
+        )}
+        {renderGroup('By Model', summary.byModel, key => key)}
+        {renderGroup('By Conversation', summary.byConversation, key => titles[key] ?? 'Deleted conversation')}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: THEME.noir,
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.border,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  headerBtn: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  // Content
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 10,
+  },
+  card: {
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  hint: {
+    fontSize: 12,
+    color: THEME.textMuted,
+    marginTop: 2,
+  },
+
+  // Rows
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowDivider: {
+    borderTopWidth: 1,
+    borderTopColor: THEME.border,
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowLabel: {
+    fontSize: 15,
+    color: THEME.text,
+  },
+  rowValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: THEME.text,
+    fontVariant: ['tabular-nums'],
+  },
+  bigValue: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+
+  // Totals
+  totals: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 24,
+  },
+  totalCard: {
+    flex: 1,
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  totalLabel: {
+    fontSize: 11,
+    color: THEME.textSecondary,
+  },
+  totalValue: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: THEME.text,
+    marginTop: 4,
+    fontVariant: ['tabular-nums'],
+  },
+
+  // Spending cap
+  capRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  capCurrency: {
+    fontSize: 17,
+    color: THEME.textSecondary,
+  },
+  capInput: {
+    flex: 1,
+    fontSize: 17,
+    color: THEME.text,
+    paddingVertical: 8,
+  },
+  capMode: {
+    marginTop: 12,
+  },
+  capTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: THEME.surfaceHover,
+    overflow: 'hidden',
+    marginTop: 14,
+    marginBottom: 6,
+  },
+  capFill: {
+    height: 4,
+  },
+  capNote: {
+    marginTop: 10,
+    lineHeight: 17,
+  },
+
+  // Segmented
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: THEME.noir,
+    borderRadius: 10,
+    padding: 4,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  segmentActive: {
+    backgroundColor: THEME.glowRed,
+  },
+  segmentText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textMuted,
+  },
+  segmentTextActive: {
+    color: THEME.red,
+  },
+});
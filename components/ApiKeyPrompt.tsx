@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Modal } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { persistApiKey } from '@/utils/apiKeyStorage';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  red: '#FF4757',
+  noir: '#0C0C0E',
+  surface: '#141416',
+  surfaceHover: '#1C1C1F',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  border: 'rgba(255, 255, 255, 0.06)',
+  glowRed: 'rgba(255, 71, 87, 0.15)',
+};
+
+interface ApiKeyPromptProps {
+  visible: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export default function ApiKeyPrompt({ visible, onClose, onSaved }: ApiKeyPromptProps) {
+  const [draft, setDraft] = useState('');
+
+  const save = async () => {
+    if (!draft.trim()) return;
+    await persistApiKey(draft);
+    setDraft('');
+    onSaved();
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <View style={styles.iconWrap}>
+            <Feather name="key" size={20} color={THEME.red} />
+          </View>
+          <Text style={styles.title}>API key required</Text>
+          <Text style={styles.body}>
+            This server has no shared Venice key. Add your own to continue — it stays on this device
+            and is sent only to this app&apos;s server.
+          </Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Venice API key"
+            placeholderTextColor={THEME.textMuted}
+            value={draft}
+            onChangeText={setDraft}
+            onSubmitEditing={save}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={onClose} style={styles.secondaryBtn}>
+              <Text style={styles.secondaryText}>Not now</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={save}
+              disabled={!draft.trim()}
+              style={[styles.primaryBtn, !draft.trim() && styles.disabled]}
+            >
+              <Text style={styles.primaryText}>Save key</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  card: {
+    width: '100%',
+    maxWidth: 380,
+    padding: 20,
+    borderRadius: 16,
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  iconWrap: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    backgroundColor: THEME.glowRed,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 14,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: THEME.text,
+    marginBottom: 6,
+  },
+  body: {
+    fontSize: 13,
+    lineHeight: 19,
+    color: THEME.textSecondary,
+    marginBottom: 16,
+  },
+  input: {
+    color: THEME.text,
+    fontSize: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: THEME.noir,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    marginBottom: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  secondaryBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: THEME.surfaceHover,
+  },
+  secondaryText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: THEME.textSecondary,
+  },
+  primaryBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: THEME.red,
+  },
+  primaryText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: THEME.noir,
+  },
+  disabled: {
+    opacity: 0.3,
+  },
+});
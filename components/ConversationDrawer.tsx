@@ -0,0 +1,353 @@
+import { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  Modal,
+  Platform,
+  Alert,
+  Pressable,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { Conversation } from '@/types/chat';
+import { searchConversations } from '@/utils/conversationStorage';
+import { ConversationExportFormat, EXPORT_FORMATS } from '@/utils/conversationTransfer';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  red: '#FF4757',
+  blanc: '#FFFFFF',
+  noir: '#0C0C0E',
+  surface: '#141416',
+  surfaceHover: '#1C1C1F',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  textDim: '#48484A',
+  border: 'rgba(255, 255, 255, 0.06)',
+  borderAccent: 'rgba(255, 71, 87, 0.3)',
+  glowRed: 'rgba(255, 71, 87, 0.15)',
+};
+
+interface ConversationDrawerProps {
+  visible: boolean;
+  conversations: Conversation[];
+  activeId: string | null;
+  getModelName: (id: string) => string;
+  onClose: () => void;
+  onNew: () => void;
+  onSelect: (conversation: Conversation) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (conversation: Conversation, format: ConversationExportFormat) => void;
+  onImport: () => void;
+}
+
+const formatUpdatedAt = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+const confirmDelete = (title: string, onConfirm: () => void) => {
+  if (Platform.OS === 'web') {
+    if (typeof window !== 'undefined' && window.confirm(`Delete "${title}"?`)) onConfirm();
+    return;
+  }
+  Alert.alert('Delete conversation', `Delete "${title}"?`, [
+    { text: 'Cancel', style: 'cancel' },
+    { text: 'Delete', style: 'destructive', onPress: onConfirm },
+  ]);
+};
+
+export default function ConversationDrawer({
+  visible,
+  conversations,
+  activeId,
+  getModelName,
+  onClose,
+  onNew,
+  onSelect,
+  onRename,
+  onDelete,
+  onExport,
+  onImport,
+}: ConversationDrawerProps) {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  // The conversation whose export formats are showing.
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const filtered = useMemo(() => searchConversations(conversations, query), [conversations, query]);
+
+  const commitRename = () => {
+    const title = draftTitle.trim();
+    if (editingId && title) onRename(editingId, title);
+    setEditingId(null);
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <SafeAreaView style={styles.drawer} edges={['top', 'bottom', 'left']}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Conversations</Text>
+            <View style={styles.headerActions}>
+              <TouchableOpacity onPress={onImport} style={styles.iconBtn} accessibilityLabel="Import conversation">
+                <Feather name="download" size={18} color={THEME.textSecondary} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={onNew} style={styles.iconBtn} accessibilityLabel="New conversation">
+                <Feather name="edit" size={18} color={THEME.red} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={onClose} style={styles.iconBtn} accessibilityLabel="Close">
+                <Feather name="x" size={20} color={THEME.text} />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.search}>
+            <Feather name="search" size={14} color={THEME.textMuted} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search conversations"
+              placeholderTextColor={THEME.textMuted}
+              value={query}
+              onChangeText={setQuery}
+            />
+            {!!query && (
+              <TouchableOpacity onPress={() => setQuery('')}>
+                <Feather name="x-circle" size={14} color={THEME.textMuted} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <FlatList
+            data={filtered}
+            keyExtractor={c => c.id}
+            contentContainerStyle={styles.list}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <Text style={styles.empty}>
+                {query ? 'No matching conversations' : 'No saved conversations yet'}
+              </Text>
+            }
+            renderItem={({ item }) => {
+              const active = item.id === activeId;
+              const editing = item.id === editingId;
+              return (
+                <View style={[styles.item, active && styles.itemActive]}>
+                  <TouchableOpacity onPress={() => !editing && onSelect(item)} style={styles.itemRow}>
+                    <View style={styles.itemInfo}>
+                      {editing ? (
+                        <TextInput
+                          style={styles.renameInput}
+                          value={draftTitle}
+                          onChangeText={setDraftTitle}
+                          onSubmitEditing={commitRename}
+                          onBlur={commitRename}
+                          autoFocus
+                          selectTextOnFocus
+                        />
+                      ) : (
+                        <Text style={styles.itemTitle} numberOfLines={1}>{item.title}</Text>
+                      )}
+                      <Text style={styles.itemMeta} numberOfLines={1}>
+                        {getModelName(item.model)} · {item.messages.length} messages · {formatUpdatedAt(item.updatedAt)}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      onPress={() => {
+                        setEditingId(item.id);
+                        setDraftTitle(item.title);
+                      }}
+                      style={styles.itemBtn}
+                      accessibilityLabel="Rename conversation"
+                    >
+                      <Feather name="edit-2" size={14} color={THEME.textSecondary} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => setExportingId(exportingId === item.id ? null : item.id)}
+                      style={styles.itemBtn}
+                      accessibilityLabel="Export conversation"
+                    >
+                      <Feather name="share" size={14} color={exportingId === item.id ? THEME.red : THEME.textSecondary} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => confirmDelete(item.title, () => onDelete(item.id))}
+                      style={styles.itemBtn}
+                      accessibilityLabel="Delete conversation"
+                    >
+                      <Feather name="trash-2" size={14} color={THEME.textSecondary} />
+                    </TouchableOpacity>
+                  </TouchableOpacity>
+                  {exportingId === item.id && (
+                    <View style={styles.exportRow}>
+                      {EXPORT_FORMATS.map(({ format, label }) => (
+                        <TouchableOpacity
+                          key={format}
+                          onPress={() => {
+                            setExportingId(null);
+                            onExport(item, format);
+                          }}
+                          style={styles.exportChip}
+                        >
+                          <Text style={styles.exportChipText}>{label}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+                </View>
+              );
+            }}
+          />
+        </SafeAreaView>
+        <Pressable style={styles.scrim} onPress={onClose} />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    flexDirection: 'row',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  drawer: {
+    width: '82%',
+    maxWidth: 360,
+    backgroundColor: THEME.noir,
+    borderRightWidth: 1,
+    borderRightColor: THEME.border,
+  },
+  scrim: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.border,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  iconBtn: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  search: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    margin: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  searchInput: {
+    flex: 1,
+    color: THEME.text,
+    fontSize: 14,
+    paddingVertical: 2,
+  },
+  list: {
+    paddingHorizontal: 12,
+    paddingBottom: 16,
+  },
+  empty: {
+    color: THEME.textMuted,
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  item: {
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 6,
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  itemActive: {
+    borderColor: THEME.borderAccent,
+    backgroundColor: THEME.glowRed,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: THEME.text,
+    marginBottom: 3,
+  },
+  itemMeta: {
+    fontSize: 11,
+    color: THEME.textMuted,
+  },
+  itemBtn: {
+    width: 30,
+    height: 30,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 10,
+  },
+  exportChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: THEME.surfaceHover,
+    borderWidth: 1,
+    borderColor: THEME.borderAccent,
+  },
+  exportChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.red,
+  },
+  renameInput: {
+    fontSize: 14,
+    color: THEME.text,
+    paddingVertical: 2,
+    marginBottom: 3,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.borderAccent,
+  },
+});
@@ -0,0 +1,281 @@
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Image } from 'expo-image';
+import * as Clipboard from 'expo-clipboard';
+import * as Haptics from 'expo-haptics';
+import { Feather } from '@expo/vector-icons';
+import { GeneratedImage, ImageOperation } from '@/types/image';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  orange: '#FF7F50',
+  red: '#FF4757',
+  noir: '#0C0C0E',
+  surface: '#141416',
+  surfaceHover: '#1C1C1F',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  border: 'rgba(255, 255, 255, 0.06)',
+  glowOrange: 'rgba(255, 127, 80, 0.12)',
+  orangeBorder: 'rgba(255, 127, 80, 0.4)',
+};
+
+const OPERATION_LABELS: Record<ImageOperation, string> = {
+  edit: 'Edit',
+  'multi-edit': 'Composite',
+  upscale: 'Upscale',
+  'background-remove': 'Background removal',
+};
+
+interface ImageDetailModalProps {
+  image: GeneratedImage | null;
+  getModelName: (id: string) => string;
+  // Resolves `sourceIds`; sources deleted since come back undefined.
+  getImage: (id: string) => GeneratedImage | undefined;
+  onClose: () => void;
+  onOpen: (image: GeneratedImage) => void;
+  // Re-runs the exact params, seed included, so the same image comes back.
+  onRerun: (image: GeneratedImage) => void;
+  onReuseSeed: (image: GeneratedImage) => void;
+  onEdit: (image: GeneratedImage) => void;
+  onDelete: (image: GeneratedImage) => void;
+  onShare: (image: GeneratedImage) => void;
+}
+
+export default function ImageDetailModal({
+  image,
+  getModelName,
+  getImage,
+  onClose,
+  onOpen,
+  onRerun,
+  onReuseSeed,
+  onEdit,
+  onDelete,
+  onShare,
+}: ImageDetailModalProps) {
+  if (!image) return null;
+
+  const params = image.params;
+  const sources = (image.sourceIds ?? []).map(getImage).filter((s): s is GeneratedImage => !!s);
+  const details: { label: string; value: string }[] = [
+    ...(image.operation ? [{ label: 'Made by', value: OPERATION_LABELS[image.operation] }] : []),
+    { label: 'Model', value: getModelName(params?.model ?? image.modelId) },
+    { label: 'Size', value: `${params?.width ?? image.width ?? '?'} × ${params?.height ?? image.height ?? '?'}` },
+    ...(params ? [
+      { label: 'Steps', value: String(params.steps) },
+      ...(params.cfgScale != null ? [{ label: 'Guidance', value: params.cfgScale.toFixed(1) }] : []),
+      ...(params.stylePreset ? [{ label: 'Style', value: params.stylePreset }] : []),
+      ...(params.negativePrompt ? [{ label: 'Negative', value: params.negativePrompt }] : []),
+    ] : []),
+    { label: 'Seed', value: params?.seed != null ? String(params.seed) : 'Random' },
+    { label: 'Created', value: new Date(image.createdAt).toLocaleString() },
+  ];
+
+  const copyPrompt = async () => {
+    await Clipboard.setStringAsync(image.prompt);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  };
+
+  return (
+    <Modal visible animationType="slide" presentationStyle="formSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modal} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Image</Text>
+          <TouchableOpacity onPress={onClose} style={styles.close}>
+            <Feather name="x" size={24} color={THEME.text} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <Image
+            source={{ uri: image.imageData }}
+            style={[styles.image, { aspectRatio: (image.width || 1) / (image.height || 1) }]}
+            contentFit="contain"
+          />
+
+          <Text style={styles.label}>Prompt</Text>
+          <Text style={styles.prompt} selectable>{image.prompt}</Text>
+
+          <View style={styles.details}>
+            {details.map(d => (
+              <View key={d.label} style={styles.detailRow}>
+                <Text style={styles.detailLabel}>{d.label}</Text>
+                <Text style={styles.detailValue}>{d.value}</Text>
+              </View>
+            ))}
+          </View>
+
+          {sources.length > 0 && (
+            <>
+              <Text style={styles.label}>{sources.length > 1 ? 'Sources' : 'Source'}</Text>
+              <View style={styles.sources}>
+                {sources.map(s => (
+                  <TouchableOpacity key={s.id} onPress={() => onOpen(s)} accessibilityLabel="Open source image">
+                    <Image source={{ uri: s.imageData }} style={styles.source} contentFit="cover" />
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              onPress={() => onRerun(image)}
+              disabled={!params}
+              style={[styles.actionBtn, styles.actionPrimary, !params && styles.actionDisabled]}
+            >
+              <Feather name="repeat" size={15} color={THEME.noir} />
+              <Text style={[styles.actionText, styles.actionPrimaryText]}>Remix</Text>
+            </TouchableOpacity>
+            {params?.seed != null && (
+              <TouchableOpacity onPress={() => onReuseSeed(image)} style={styles.actionBtn}>
+                <Feather name="lock" size={15} color={THEME.text} />
+                <Text style={styles.actionText}>Lock seed</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={() => onEdit(image)} style={styles.actionBtn}>
+              <Feather name="edit-3" size={15} color={THEME.text} />
+              <Text style={styles.actionText}>Edit</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={copyPrompt} style={styles.actionBtn}>
+              <Feather name="copy" size={15} color={THEME.text} />
+              <Text style={styles.actionText}>Copy prompt</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => onShare(image)} style={styles.actionBtn}>
+              <Feather name="share" size={15} color={THEME.text} />
+              <Text style={styles.actionText}>Share</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => onDelete(image)} style={styles.actionBtn}>
+              <Feather name="trash-2" size={15} color={THEME.red} />
+              <Text style={[styles.actionText, styles.actionDangerText]}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+    backgroundColor: THEME.noir,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.border,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  close: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  image: {
+    width: '100%',
+    borderRadius: 12,
+    backgroundColor: THEME.surface,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 20,
+    marginBottom: 6,
+  },
+  prompt: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: THEME.text,
+  },
+  details: {
+    marginTop: 16,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    gap: 8,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  detailLabel: {
+    fontSize: 13,
+    color: THEME.textSecondary,
+  },
+  detailValue: {
+    flexShrink: 1,
+    marginLeft: 12,
+    fontSize: 13,
+    color: THEME.text,
+    fontWeight: '500',
+    textAlign: 'right',
+  },
+  sources: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  source: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: THEME.surface,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 20,
+  },
+  actionBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: THEME.surfaceHover,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  actionPrimary: {
+    backgroundColor: THEME.orange,
+    borderColor: THEME.orange,
+  },
+  actionDisabled: {
+    opacity: 0.3,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  actionPrimaryText: {
+    color: THEME.noir,
+  },
+  actionDangerText: {
+    color: THEME.red,
+  },
+});
@@ -0,0 +1,480 @@
+import { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { Feather } from '@expo/vector-icons';
+import Slider from '@react-native-community/slider';
+import { AppSettings } from '@/types/settings';
+import { VeniceModel } from '@/types/venice';
+import { getAspectPresets, getImageConstraints, resolveImageSettings, snapDimension } from '@/utils/imageConstraints';
+import { MAX_IMAGE_VARIANTS, clampSeed, randomSeed } from '@/utils/imageGeneration';
+import { MAX_JOB_CONCURRENCY } from '@/utils/jobQueue';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  orange: '#FF7F50',
+  orangeLight: 'rgba(255, 127, 80, 0.15)',
+  surface: '#141416',
+  surfaceHover: '#1C1C1F',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  border: 'rgba(255, 255, 255, 0.06)',
+  glowOrange: 'rgba(255, 127, 80, 0.12)',
+  orangeBorder: 'rgba(255, 127, 80, 0.4)',
+};
+
+// Long side of the ratio icons.
+const ICON_SIZE = 28;
+
+const VARIANT_COUNTS = Array.from({ length: MAX_IMAGE_VARIANTS }, (_, i) => i + 1);
+const CONCURRENCY_LIMITS = Array.from({ length: MAX_JOB_CONCURRENCY }, (_, i) => i + 1);
+
+interface ImageSettingsPanelProps {
+  model: VeniceModel | undefined;
+  settings: AppSettings;
+  // Names from /image/styles; the picker is hidden while empty.
+  stylePresets: string[];
+  onChange: (updates: Partial<AppSettings>) => void;
+  onClose: () => void;
+}
+
+export default function ImageSettingsPanel({ model, settings, stylePresets, onChange, onClose }: ImageSettingsPanelProps) {
+  const constraints = useMemo(() => getImageConstraints(model), [model]);
+  const presets = useMemo(() => getAspectPresets(constraints), [constraints]);
+  const current = resolveImageSettings(settings, constraints);
+  const { steps, width, height, guidance, divisor } = constraints;
+
+  // Typed sizes are drafts until editing ends, then snap to what the model accepts.
+  const [widthDraft, setWidthDraft] = useState(String(current.width));
+  const [heightDraft, setHeightDraft] = useState(String(current.height));
+  useEffect(() => setWidthDraft(String(current.width)), [current.width]);
+  useEffect(() => setHeightDraft(String(current.height)), [current.height]);
+
+  const seedText = settings.imageSeedLocked ? String(settings.imageSeed) : '';
+  const [seedDraft, setSeedDraft] = useState(seedText);
+  useEffect(() => setSeedDraft(seedText), [seedText]);
+
+  // A typed seed locks it in; clearing the field goes back to random seeds.
+  const commitSeed = () => {
+    const trimmed = seedDraft.trim();
+    if (!trimmed) {
+      onChange({ imageSeedLocked: false });
+      return;
+    }
+    const seed = Number(trimmed);
+    if (Number.isFinite(seed)) onChange({ imageSeed: clampSeed(seed), imageSeedLocked: true });
+    else setSeedDraft(seedText);
+  };
+
+  const toggleSeedLock = () => {
+    onChange(settings.imageSeedLocked
+      ? { imageSeedLocked: false }
+      : { imageSeed: settings.imageSeed || randomSeed(), imageSeedLocked: true });
+    Haptics.selectionAsync();
+  };
+
+  const commitSize = () => {
+    const w = snapDimension(Number(widthDraft) || current.width, width, divisor);
+    const h = snapDimension(Number(heightDraft) || current.height, height, divisor);
+    setWidthDraft(String(w));
+    setHeightDraft(String(h));
+    if (w !== settings.imageWidth || h !== settings.imageHeight) onChange({ imageWidth: w, imageHeight: h });
+  };
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.header}>
+        <View style={styles.titleRow}>
+          <Feather name="sliders" size={14} color={THEME.orange} />
+          <Text style={styles.title}>Generation Settings</Text>
+        </View>
+        <TouchableOpacity onPress={onClose} style={styles.close}>
+          <Feather name="x" size={16} color={THEME.textSecondary} />
+        </TouchableOpacity>
+      </View>
+
+      {/* Aspect Ratio - visual ratio icons */}
+      <Text style={styles.label}>Aspect Ratio</Text>
+      <View style={styles.ratioRow}>
+        {presets.map(p => {
+          const active = current.width === p.width && current.height === p.height;
+          const long = Math.max(p.width, p.height);
+          return (
+            <TouchableOpacity
+              key={p.label}
+              onPress={() => {
+                onChange({ imageWidth: p.width, imageHeight: p.height });
+                Haptics.selectionAsync();
+              }}
+              style={[styles.ratioBtn, active && styles.ratioBtnActive]}
+            >
+              <View style={[
+                styles.ratioIcon,
+                { width: (ICON_SIZE * p.width) / long, height: (ICON_SIZE * p.height) / long },
+                active && styles.ratioIconActive,
+              ]} />
+              <Text style={[styles.ratioText, active && styles.ratioTextActive]}>{p.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Size</Text>
+        <Text style={styles.hint}>
+          {width.min}–{width.max} × {height.min}–{height.max}, multiples of {divisor}
+        </Text>
+      </View>
+      <View style={styles.sizeRow}>
+        <TextInput
+          style={styles.sizeInput}
+          value={widthDraft}
+          onChangeText={setWidthDraft}
+          onBlur={commitSize}
+          onSubmitEditing={commitSize}
+          keyboardType="number-pad"
+          accessibilityLabel="Width"
+        />
+        <Text style={styles.sizeTimes}>×</Text>
+        <TextInput
+          style={styles.sizeInput}
+          value={heightDraft}
+          onChangeText={setHeightDraft}
+          onBlur={commitSize}
+          onSubmitEditing={commitSize}
+          keyboardType="number-pad"
+          accessibilityLabel="Height"
+        />
+      </View>
+
+      <Text style={[styles.label, styles.labelSpaced]}>Variants</Text>
+      <View style={styles.chipRow}>
+        {VARIANT_COUNTS.map(n => {
+          const active = settings.imageVariants === n;
+          return (
+            <TouchableOpacity
+              key={n}
+              onPress={() => onChange({ imageVariants: n })}
+              style={[styles.chip, styles.variantChip, active && styles.chipActive]}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{n}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Parallel Jobs</Text>
+        <Text style={styles.hint}>More prompts wait in the queue</Text>
+      </View>
+      <View style={styles.chipRow}>
+        {CONCURRENCY_LIMITS.map(n => {
+          const active = settings.imageConcurrency === n;
+          return (
+            <TouchableOpacity
+              key={n}
+              onPress={() => onChange({ imageConcurrency: n })}
+              style={[styles.chip, styles.variantChip, active && styles.chipActive]}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{n}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Seed</Text>
+        <Text style={styles.hint}>
+          {settings.imageSeedLocked
+            ? settings.imageVariants > 1 ? 'Locked · variants count up from it' : 'Locked'
+            : 'Random each time'}
+        </Text>
+      </View>
+      <View style={styles.sizeRow}>
+        <TextInput
+          style={[styles.sizeInput, styles.seedInput]}
+          value={seedDraft}
+          onChangeText={setSeedDraft}
+          onBlur={commitSeed}
+          onSubmitEditing={commitSeed}
+          placeholder="Random"
+          placeholderTextColor={THEME.textMuted}
+          keyboardType="number-pad"
+          accessibilityLabel="Seed"
+        />
+        <TouchableOpacity
+          onPress={toggleSeedLock}
+          style={[styles.seedBtn, settings.imageSeedLocked && styles.chipActive]}
+          accessibilityLabel={settings.imageSeedLocked ? 'Unlock seed' : 'Lock seed'}
+        >
+          <Feather
+            name={settings.imageSeedLocked ? 'lock' : 'unlock'}
+            size={15}
+            color={settings.imageSeedLocked ? THEME.orange : THEME.textSecondary}
+          />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => {
+            onChange({ imageSeed: randomSeed(), imageSeedLocked: true });
+            Haptics.selectionAsync();
+          }}
+          style={styles.seedBtn}
+          accessibilityLabel="New random seed"
+        >
+          <Feather name="shuffle" size={15} color={THEME.textSecondary} />
+        </TouchableOpacity>
+      </View>
+
+      {stylePresets.length > 0 && (
+        <>
+          <Text style={[styles.label, styles.labelSpaced]}>Style</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {['', ...stylePresets].map(name => {
+              const active = settings.imageStylePreset === name;
+              return (
+                <TouchableOpacity
+                  key={name || 'none'}
+                  onPress={() => onChange({ imageStylePreset: name })}
+                  style={[styles.chip, active && styles.chipActive]}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{name || 'None'}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </>
+      )}
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Steps</Text>
+        <Text style={styles.value}>{current.steps}</Text>
+      </View>
+      {steps.max > steps.min ? (
+        <Slider
+          value={current.steps}
+          minimumValue={steps.min}
+          maximumValue={steps.max}
+          step={1}
+          onValueChange={v => onChange({ imageSteps: v })}
+          minimumTrackTintColor={THEME.orange}
+          maximumTrackTintColor={THEME.border}
+          thumbTintColor={THEME.orange}
+        />
+      ) : (
+        <Text style={styles.hint}>Fixed by this model</Text>
+      )}
+
+      {guidance && (
+        <>
+          <View style={styles.row}>
+            <Text style={styles.label}>Guidance</Text>
+            <Text style={styles.value}>{(current.cfgScale ?? guidance.default).toFixed(1)}</Text>
+          </View>
+          <Slider
+            value={current.cfgScale ?? guidance.default}
+            minimumValue={guidance.min}
+            maximumValue={guidance.max}
+            step={0.5}
+            onValueChange={v => onChange({ imageGuidanceScale: v })}
+            minimumTrackTintColor={THEME.orange}
+            maximumTrackTintColor={THEME.border}
+            thumbTintColor={THEME.orange}
+          />
+
+          <Text style={[styles.label, styles.labelSpaced]}>Negative Prompt</Text>
+          <TextInput
+            style={styles.negativeInput}
+            value={settings.imageNegativePrompt}
+            onChangeText={text => onChange({ imageNegativePrompt: text })}
+            placeholder="What to keep out, e.g. blurry, text"
+            placeholderTextColor={THEME.textMuted}
+            multiline
+          />
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: THEME.surface,
+    marginHorizontal: 0,
+    marginTop: 16,
+    padding: 18,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 18,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 7,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: THEME.text,
+    letterSpacing: 0.4,
+  },
+  close: {
+    width: 28,
+    height: 28,
+    borderRadius: 8,
+    backgroundColor: THEME.surfaceHover,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+    marginTop: 14,
+  },
+  label: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+    fontWeight: '500',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  value: {
+    fontSize: 13,
+    color: THEME.orange,
+    fontWeight: '700',
+  },
+  labelSpaced: {
+    marginTop: 14,
+  },
+  hint: {
+    fontSize: 11,
+    color: THEME.textMuted,
+  },
+
+  // Variant counts and style presets
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 10,
+    backgroundColor: THEME.surfaceHover,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  variantChip: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  chipActive: {
+    borderColor: THEME.orangeBorder,
+    backgroundColor: THEME.glowOrange,
+  },
+  chipText: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: THEME.orange,
+  },
+
+  // Aspect ratio buttons — visual icons
+  ratioRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  ratioBtn: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: THEME.surfaceHover,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    gap: 8,
+  },
+  ratioBtnActive: {
+    borderColor: THEME.orangeBorder,
+    backgroundColor: THEME.glowOrange,
+  },
+  ratioIcon: {
+    borderRadius: 3,
+    borderWidth: 1.5,
+    borderColor: THEME.textMuted,
+  },
+  ratioIconActive: {
+    borderColor: THEME.orange,
+    backgroundColor: THEME.orangeLight,
+  },
+  ratioText: {
+    fontSize: 11,
+    color: THEME.textSecondary,
+    fontWeight: '600',
+    letterSpacing: 0.2,
+  },
+  ratioTextActive: {
+    color: THEME.orange,
+  },
+
+  // Custom size
+  sizeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 6,
+  },
+  sizeInput: {
+    flex: 1,
+    backgroundColor: THEME.surfaceHover,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+    fontSize: 14,
+    color: THEME.text,
+    textAlign: 'center',
+  },
+  sizeTimes: {
+    fontSize: 14,
+    color: THEME.textMuted,
+  },
+  seedInput: {
+    textAlign: 'left',
+  },
+  seedBtn: {
+    width: 38,
+    height: 38,
+    borderRadius: 10,
+    backgroundColor: THEME.surfaceHover,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  negativeInput: {
+    backgroundColor: THEME.surfaceHover,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+    marginTop: 8,
+    minHeight: 60,
+    fontSize: 14,
+    color: THEME.text,
+    textAlignVertical: 'top',
+  },
+});
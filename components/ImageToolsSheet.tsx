@@ -0,0 +1,449 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, TextInput, Switch, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Image } from 'expo-image';
+import { Feather } from '@expo/vector-icons';
+import Slider from '@react-native-community/slider';
+import { GeneratedImage } from '@/types/image';
+import { VeniceModel } from '@/types/venice';
+import { pickImageAttachment } from '@/utils/imageAttachments';
+import { ImageToolJob, ImageToolKind, ImageToolSource, MAX_EDIT_SOURCES, UPSCALE_SCALES } from '@/utils/imageTools';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  orange: '#FF7F50',
+  blanc: '#FFFFFF',
+  noir: '#0C0C0E',
+  surface: '#141416',
+  surfaceHover: '#1C1C1F',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  border: 'rgba(255, 255, 255, 0.06)',
+  glowOrange: 'rgba(255, 127, 80, 0.12)',
+  orangeBorder: 'rgba(255, 127, 80, 0.4)',
+};
+
+const TOOLS: { kind: ImageToolKind; label: string; icon: keyof typeof Feather.glyphMap }[] = [
+  { kind: 'edit', label: 'Edit', icon: 'edit-3' },
+  { kind: 'upscale', label: 'Upscale', icon: 'maximize-2' },
+  { kind: 'background-remove', label: 'Remove BG', icon: 'scissors' },
+];
+
+// How many recent gallery images are offered as inputs.
+const GALLERY_PICKS = 12;
+
+export const toImageToolSource = (image: GeneratedImage): ImageToolSource => ({
+  id: image.id,
+  uri: image.imageData,
+  galleryId: image.id,
+  width: image.width,
+  height: image.height,
+});
+
+interface ImageToolsSheetProps {
+  // The images the sheet opens with; null keeps it closed.
+  initialSources: ImageToolSource[] | null;
+  gallery: GeneratedImage[];
+  editModels: VeniceModel[];
+  getModelName: (id: string) => string;
+  onRun: (job: ImageToolJob) => void;
+  onClose: () => void;
+}
+
+export default function ImageToolsSheet({
+  initialSources,
+  gallery,
+  editModels,
+  getModelName,
+  onRun,
+  onClose,
+}: ImageToolsSheetProps) {
+  const [kind, setKind] = useState<ImageToolKind>('edit');
+  const [sources, setSources] = useState<ImageToolSource[]>([]);
+  const [prompt, setPrompt] = useState('');
+  const [model, setModel] = useState('');
+  const [scale, setScale] = useState(2);
+  const [enhance, setEnhance] = useState(false);
+  const [creativity, setCreativity] = useState(0.35);
+  const [enhancePrompt, setEnhancePrompt] = useState('');
+
+  useEffect(() => {
+    if (!initialSources) return;
+    setSources(initialSources);
+    setPrompt('');
+    setEnhancePrompt('');
+  }, [initialSources]);
+
+  useEffect(() => {
+    if (editModels.length && !editModels.some(m => m.id === model)) setModel(editModels[0].id);
+  }, [editModels, model]);
+
+  // Only edits take several images; the other tools work on one.
+  const maxSources = kind === 'edit' ? MAX_EDIT_SOURCES : 1;
+  const shown = sources.slice(0, maxSources);
+
+  const addSource = (source: ImageToolSource) => {
+    setSources(prev => {
+      if (prev.some(s => s.id === source.id)) return prev;
+      return maxSources === 1 ? [source] : [...prev, source].slice(0, maxSources);
+    });
+  };
+
+  const addPhoto = async () => {
+    try {
+      const attachment = await pickImageAttachment('library');
+      if (attachment) {
+        addSource({ id: attachment.id, uri: attachment.uri, width: attachment.width, height: attachment.height });
+      }
+    } catch (e: any) {
+      Alert.alert('Add photo', e?.message || 'Unable to pick a photo.');
+    }
+  };
+
+  const canRun =
+    shown.length > 0 && (kind !== 'edit' || (!!prompt.trim() && !!model));
+
+  const run = () => {
+    if (!canRun) return;
+    if (kind === 'edit') onRun({ kind, model, prompt: prompt.trim(), sources: shown });
+    else if (kind === 'upscale') {
+      onRun({ kind, scale, enhance: enhance || scale === 1, creativity, prompt: enhancePrompt.trim() || undefined, sources: shown });
+    } else onRun({ kind, sources: shown });
+  };
+
+  return (
+    <Modal visible={!!initialSources} animationType="slide" presentationStyle="formSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modal} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.close}>
+            <Feather name="x" size={22} color={THEME.text} />
+          </TouchableOpacity>
+          <Text style={styles.title}>Image Tools</Text>
+          <TouchableOpacity onPress={run} disabled={!canRun} style={[styles.runBtn, !canRun && styles.disabled]}>
+            <Text style={styles.runText}>Run</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.tools}>
+            {TOOLS.map(t => (
+              <TouchableOpacity
+                key={t.kind}
+                onPress={() => setKind(t.kind)}
+                style={[styles.tool, kind === t.kind && styles.toolActive]}
+              >
+                <Feather name={t.icon} size={14} color={kind === t.kind ? THEME.orange : THEME.textSecondary} />
+                <Text style={[styles.toolText, kind === t.kind && styles.toolTextActive]}>{t.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>
+            {kind === 'edit' ? `Images · up to ${MAX_EDIT_SOURCES}, the first is the base` : 'Image'}
+          </Text>
+          <View style={styles.sources}>
+            {shown.map(s => (
+              <View key={s.id} style={styles.source}>
+                <Image source={{ uri: s.uri }} style={styles.sourceImage} contentFit="cover" />
+                <TouchableOpacity
+                  onPress={() => setSources(prev => prev.filter(p => p.id !== s.id))}
+                  style={styles.sourceRemove}
+                  accessibilityLabel="Remove image"
+                >
+                  <Feather name="x" size={10} color={THEME.blanc} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {shown.length < maxSources && (
+              <TouchableOpacity onPress={addPhoto} style={[styles.source, styles.sourceAdd]} accessibilityLabel="Add photo">
+                <Feather name="plus" size={20} color={THEME.textMuted} />
+              </TouchableOpacity>
+            )}
+          </View>
+          {gallery.length > 0 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.galleryPicks}>
+              {gallery.slice(0, GALLERY_PICKS).map(img => (
+                <TouchableOpacity key={img.id} onPress={() => addSource(toImageToolSource(img))}>
+                  <Image source={{ uri: img.imageData }} style={styles.galleryPick} contentFit="cover" />
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          {kind === 'edit' && (
+            <>
+              <Text style={styles.label}>Edit</Text>
+              <TextInput
+                style={[styles.input, styles.promptInput]}
+                placeholder="Change the sky to a sunrise…"
+                placeholderTextColor={THEME.textMuted}
+                value={prompt}
+                onChangeText={setPrompt}
+                multiline
+              />
+              <Text style={styles.label}>Model</Text>
+              {editModels.length ? (
+                <View style={styles.chips}>
+                  {editModels.map(m => (
+                    <TouchableOpacity
+                      key={m.id}
+                      onPress={() => setModel(m.id)}
+                      style={[styles.chip, model === m.id && styles.chipActive]}
+                    >
+                      <Text style={[styles.chipText, model === m.id && styles.chipTextActive]}>{getModelName(m.id)}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              ) : (
+                <Text style={styles.hint}>No edit models are available for this key.</Text>
+              )}
+            </>
+          )}
+
+          {kind === 'upscale' && (
+            <>
+              <Text style={styles.label}>Scale</Text>
+              <View style={styles.chips}>
+                {UPSCALE_SCALES.map(s => (
+                  <TouchableOpacity key={s} onPress={() => setScale(s)} style={[styles.chip, scale === s && styles.chipActive]}>
+                    <Text style={[styles.chipText, scale === s && styles.chipTextActive]}>{s}×</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.switchRow}>
+                <View style={styles.flex}>
+                  <Text style={styles.switchLabel}>Enhance detail</Text>
+                  <Text style={styles.hint}>{scale === 1 ? 'Always on at 1×' : 'Re-detail while upscaling'}</Text>
+                </View>
+                <Switch
+                  value={enhance || scale === 1}
+                  onValueChange={setEnhance}
+                  disabled={scale === 1}
+                  trackColor={{ false: THEME.border, true: THEME.orange }}
+                  thumbColor={THEME.blanc}
+                />
+              </View>
+              {(enhance || scale === 1) && (
+                <>
+                  <Text style={styles.label}>Creativity {creativity.toFixed(2)}</Text>
+                  <Slider
+                    minimumValue={0}
+                    maximumValue={1}
+                    step={0.05}
+                    value={creativity}
+                    onValueChange={setCreativity}
+                    minimumTrackTintColor={THEME.orange}
+                    maximumTrackTintColor={THEME.surfaceHover}
+                    thumbTintColor={THEME.orange}
+                  />
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Enhance style (optional), e.g. cinematic"
+                    placeholderTextColor={THEME.textMuted}
+                    value={enhancePrompt}
+                    onChangeText={setEnhancePrompt}
+                  />
+                </>
+              )}
+            </>
+          )}
+
+          {kind === 'background-remove' && (
+            <Text style={styles.hint}>Cuts the subject out onto a transparent PNG.</Text>
+          )}
+
+          <Text style={styles.footnote}>The result is saved to the gallery, linked to the image it came from.</Text>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+    backgroundColor: THEME.noir,
+  },
+  flex: {
+    flex: 1,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.border,
+  },
+  close: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  runBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: THEME.orange,
+  },
+  runText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: THEME.noir,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+    gap: 10,
+  },
+  tools: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  tool: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  toolActive: {
+    backgroundColor: THEME.glowOrange,
+    borderColor: THEME.orangeBorder,
+  },
+  toolText: {
+    fontSize: 13,
+    color: THEME.textSecondary,
+  },
+  toolTextActive: {
+    color: THEME.orange,
+    fontWeight: '600',
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 8,
+  },
+  sources: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  source: {
+    width: 84,
+    height: 84,
+    borderRadius: 10,
+    overflow: 'hidden',
+    backgroundColor: THEME.surface,
+  },
+  sourceImage: {
+    width: '100%',
+    height: '100%',
+  },
+  sourceAdd: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: THEME.textMuted,
+  },
+  sourceRemove: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  galleryPicks: {
+    gap: 6,
+  },
+  galleryPick: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+  },
+  input: {
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: THEME.text,
+  },
+  promptInput: {
+    minHeight: 90,
+    textAlignVertical: 'top',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 14,
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  chipActive: {
+    backgroundColor: THEME.glowOrange,
+    borderColor: THEME.orangeBorder,
+  },
+  chipText: {
+    fontSize: 13,
+    color: THEME.textSecondary,
+  },
+  chipTextActive: {
+    color: THEME.orange,
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 8,
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: THEME.text,
+  },
+  hint: {
+    fontSize: 12,
+    color: THEME.textMuted,
+    marginTop: 2,
+  },
+  footnote: {
+    fontSize: 12,
+    color: THEME.textMuted,
+    marginTop: 12,
+    lineHeight: 17,
+  },
+});
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  red: '#FF4757',
+  orange: '#FF7F50',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  border: 'rgba(255, 255, 255, 0.06)',
+};
+
+const MONO = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+// Levels below this start collapsed so large replies stay readable.
+const OPEN_DEPTH = 2;
+
+interface JsonTreeProps {
+  value: unknown;
+  label?: string;
+  depth?: number;
+}
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  !!value && typeof value === 'object';
+
+function Primitive({ value }: { value: unknown }) {
+  if (typeof value === 'string') return <Text style={styles.string}>&quot;{value}&quot;</Text>;
+  if (typeof value === 'number') return <Text style={styles.number}>{String(value)}</Text>;
+  if (typeof value === 'boolean') return <Text style={styles.boolean}>{String(value)}</Text>;
+  return <Text style={styles.null}>null</Text>;
+}
+
+export default function JsonTree({ value, label, depth = 0 }: JsonTreeProps) {
+  const [open, setOpen] = useState(depth < OPEN_DEPTH);
+
+  if (!isContainer(value)) {
+    return (
+      <Text style={styles.line} selectable>
+        {label !== undefined && <Text style={styles.key}>{label}: </Text>}
+        <Primitive value={value} />
+      </Text>
+    );
+  }
+
+  const entries: [string, unknown][] = Array.isArray(value)
+    ? value.map((item, i) => [String(i), item])
+    : Object.entries(value);
+  const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <View>
+      <TouchableOpacity style={styles.header} onPress={() => setOpen(o => !o)} disabled={!entries.length}>
+        <Feather name={open ? 'chevron-down' : 'chevron-right'} size={12} color={THEME.textMuted} />
+        <Text style={styles.line}>
+          {label !== undefined && <Text style={styles.key}>{label}: </Text>}
+          <Text style={styles.summary}>{summary}</Text>
+        </Text>
+      </TouchableOpacity>
+      {open && (
+        <View style={styles.children}>
+          {entries.map(([key, child]) => (
+            <JsonTree key={key} value={child} label={key} depth={depth + 1} />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  children: {
+    marginLeft: 6,
+    paddingLeft: 10,
+    borderLeftWidth: 1,
+    borderLeftColor: THEME.border,
+  },
+  line: {
+    fontFamily: MONO,
+    fontSize: 13,
+    lineHeight: 20,
+    color: THEME.text,
+  },
+  key: {
+    color: THEME.textSecondary,
+  },
+  summary: {
+    color: THEME.textMuted,
+  },
+  string: {
+    color: THEME.orange,
+  },
+  number: {
+    color: THEME.red,
+  },
+  boolean: {
+    color: THEME.red,
+  },
+  null: {
+    color: THEME.textMuted,
+  },
+});
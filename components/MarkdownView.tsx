@@ -0,0 +1,353 @@
+import React, { createContext, useContext, useMemo, useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Platform, Linking, StyleProp, TextStyle } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import * as Haptics from 'expo-haptics';
+import { Feather } from '@expo/vector-icons';
+import { MessageCitation } from '@/types/chat';
+import { MdAlign, MdBlock, MdInline, parseMarkdown } from '@/utils/markdown';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  red: '#FF4757',
+  orange: '#FF7F50',
+  surface: '#141416',
+  surfaceHover: '#1C1C1F',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  border: 'rgba(255, 255, 255, 0.06)',
+  borderAccent: 'rgba(255, 71, 87, 0.3)',
+};
+
+const MONO = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+interface MarkdownViewProps {
+  content: string;
+  // While true, unterminated code fences are expected and the copy button waits for the final text.
+  streaming?: boolean;
+  textStyle?: StyleProp<TextStyle>;
+  // Sources that `[n]` / `[REF]n[/REF]` markers point into.
+  citations?: MessageCitation[];
+}
+
+const CitationsContext = createContext<MessageCitation[] | undefined>(undefined);
+
+export default function MarkdownView({ content, streaming, textStyle, citations }: MarkdownViewProps) {
+  const citationCount = citations?.length ?? 0;
+  const blocks = useMemo(() => parseMarkdown(content, citationCount), [content, citationCount]);
+  return (
+    <CitationsContext.Provider value={citations}>
+      <View>
+        {blocks.map((block, i) => (
+          <MarkdownBlock key={i} block={block} streaming={!!streaming} textStyle={textStyle} />
+        ))}
+      </View>
+    </CitationsContext.Provider>
+  );
+}
+
+function Citation({ indexes }: { indexes: number[] }) {
+  const citations = useContext(CitationsContext);
+  return (
+    <>
+      {indexes.map((index, i) => {
+        const source = citations?.[index];
+        return source?.url ? (
+          <Text
+            key={i}
+            style={styles.citation}
+            onPress={() => Linking.openURL(source.url)}
+            accessibilityRole="link"
+            accessibilityLabel={`Source ${index + 1}: ${source.title}`}
+          >
+            [{index + 1}]
+          </Text>
+        ) : (
+          `[${index + 1}]`
+        );
+      })}
+    </>
+  );
+}
+
+function Inline({ nodes }: { nodes: MdInline[] }) {
+  return (
+    <>
+      {nodes.map((node, i) => {
+        switch (node.type) {
+          case 'text':
+            return node.text;
+          case 'code':
+            return <Text key={i} style={styles.inlineCode}>{node.text}</Text>;
+          case 'strong':
+            return <Text key={i} style={styles.strong}><Inline nodes={node.children} /></Text>;
+          case 'em':
+            return <Text key={i} style={styles.em}><Inline nodes={node.children} /></Text>;
+          case 'del':
+            return <Text key={i} style={styles.del}><Inline nodes={node.children} /></Text>;
+          case 'link':
+            return (
+              <Text key={i} style={styles.link} onPress={() => Linking.openURL(node.href)}>
+                <Inline nodes={node.children} />
+              </Text>
+            );
+          case 'image':
+            // Inline images can't sit inside native Text; link out to remote ones instead.
+            return node.src.startsWith('http') ? (
+              <Text key={i} style={styles.link} onPress={() => Linking.openURL(node.src)}>
+                {node.alt || 'image'}
+              </Text>
+            ) : (
+              <Text key={i} style={styles.em}>{node.alt || 'image'}</Text>
+            );
+          case 'citation':
+            return <Citation key={i} indexes={node.indexes} />;
+        }
+      })}
+    </>
+  );
+}
+
+function Lines({ lines }: { lines: MdInline[][] }) {
+  return (
+    <>
+      {lines.map((line, i) => (
+        <React.Fragment key={i}>
+          {i > 0 && '\n'}
+          <Inline nodes={line} />
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
+function CodeBlock({ lang, code, streaming }: { lang: string; code: string; streaming: boolean }) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copy = async () => {
+    await Clipboard.setStringAsync(code);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setCopied(true);
+  };
+
+  return (
+    <View style={styles.codeBlock}>
+      <View style={styles.codeHeader}>
+        <Text style={styles.codeLang}>{lang || 'code'}</Text>
+        {!streaming && (
+          <TouchableOpacity onPress={copy} style={styles.copyBtn} accessibilityLabel="Copy code">
+            <Feather name={copied ? 'check' : 'copy'} size={12} color={copied ? THEME.orange : THEME.textMuted} />
+            <Text style={[styles.copyText, copied && styles.copyTextDone]}>{copied ? 'Copied' : 'Copy'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <Text style={styles.codeText} selectable>{code}</Text>
+      </ScrollView>
+    </View>
+  );
+}
+
+const alignStyle = (align: MdAlign): TextStyle => (align ? { textAlign: align } : {});
+
+function Table({ block, textStyle }: { block: Extract<MdBlock, { type: 'table' }>; textStyle?: StyleProp<TextStyle> }) {
+  const renderRow = (cells: MdInline[][], header: boolean, key: number | string) => (
+    <View key={key} style={[styles.tableRow, header && styles.tableHeaderRow]}>
+      {block.header.map((_, c) => (
+        <View key={c} style={styles.tableCell}>
+          <Text style={[textStyle, styles.tableText, header && styles.strong, alignStyle(block.aligns[c])]}>
+            <Inline nodes={cells[c] ?? []} />
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.table}>
+      <View>
+        {renderRow(block.header, true, 'header')}
+        {block.rows.map((row, r) => renderRow(row, false, r))}
+      </View>
+    </ScrollView>
+  );
+}
+
+function MarkdownBlock({ block, streaming, textStyle }: { block: MdBlock; streaming: boolean; textStyle?: StyleProp<TextStyle> }) {
+  switch (block.type) {
+    case 'paragraph':
+      return <Text style={[textStyle, styles.block]}><Lines lines={block.lines} /></Text>;
+    case 'heading':
+      return (
+        <Text style={[textStyle, styles.heading, HEADING_SIZES[block.level - 1]]} accessibilityRole="header">
+          <Inline nodes={block.children} />
+        </Text>
+      );
+    case 'code':
+      return <CodeBlock lang={block.lang} code={block.code} streaming={streaming && block.open} />;
+    case 'hr':
+      return <View style={styles.hr} />;
+    case 'quote':
+      return (
+        <View style={styles.quote}>
+          <Text style={[textStyle, styles.quoteText]}><Lines lines={block.lines} /></Text>
+        </View>
+      );
+    case 'list':
+      return (
+        <View style={styles.block}>
+          {block.items.map((item, i) => (
+            <View key={i} style={styles.listItem}>
+              <Text style={[textStyle, styles.listMarker]}>{block.ordered ? `${block.start + i}.` : '•'}</Text>
+              <Text style={[textStyle, styles.listText]}><Inline nodes={item} /></Text>
+            </View>
+          ))}
+        </View>
+      );
+    case 'table':
+      return <Table block={block} textStyle={textStyle} />;
+  }
+}
+
+const HEADING_SIZES: TextStyle[] = [
+  { fontSize: 22, lineHeight: 28 },
+  { fontSize: 19, lineHeight: 25 },
+  { fontSize: 17, lineHeight: 23 },
+  { fontSize: 15, lineHeight: 22 },
+  { fontSize: 15, lineHeight: 22 },
+  { fontSize: 14, lineHeight: 20 },
+];
+
+const styles = StyleSheet.create({
+  block: {
+    marginVertical: 4,
+  },
+  heading: {
+    fontWeight: '700',
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  strong: {
+    fontWeight: '700',
+  },
+  em: {
+    fontStyle: 'italic',
+  },
+  del: {
+    textDecorationLine: 'line-through',
+  },
+  link: {
+    color: THEME.red,
+    textDecorationLine: 'underline',
+  },
+  citation: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.red,
+  },
+  inlineCode: {
+    fontFamily: MONO,
+    fontSize: 13,
+    color: THEME.orange,
+    backgroundColor: THEME.surfaceHover,
+  },
+  codeBlock: {
+    backgroundColor: '#0a0a0c',
+    borderRadius: 8,
+    padding: 12,
+    paddingTop: 8,
+    marginVertical: 8,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  codeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  codeLang: {
+    fontSize: 11,
+    color: THEME.textMuted,
+    textTransform: 'lowercase',
+  },
+  copyBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 2,
+    paddingHorizontal: 4,
+  },
+  copyText: {
+    fontSize: 11,
+    color: THEME.textMuted,
+  },
+  copyTextDone: {
+    color: THEME.orange,
+  },
+  codeText: {
+    fontFamily: MONO,
+    fontSize: 13,
+    color: THEME.text,
+    lineHeight: 20,
+  },
+  hr: {
+    height: 1,
+    backgroundColor: THEME.border,
+    marginVertical: 12,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: THEME.borderAccent,
+    paddingLeft: 10,
+    marginVertical: 6,
+  },
+  quoteText: {
+    color: THEME.textSecondary,
+  },
+  listItem: {
+    flexDirection: 'row',
+    gap: 8,
+    marginVertical: 2,
+  },
+  listMarker: {
+    minWidth: 14,
+    color: THEME.textSecondary,
+  },
+  listText: {
+    flex: 1,
+  },
+  table: {
+    marginVertical: 8,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    borderRadius: 8,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderTopWidth: 1,
+    borderTopColor: THEME.border,
+  },
+  tableHeaderRow: {
+    borderTopWidth: 0,
+    backgroundColor: THEME.surface,
+  },
+  tableCell: {
+    width: 140,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  tableText: {
+    fontSize: 13,
+    lineHeight: 19,
+  },
+});
@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, TextInput, Switch } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { AppSettings } from '@/types/settings';
+import { Persona } from '@/types/persona';
+import { createPersonaId, pickSampling } from '@/utils/personaStorage';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  red: '#FF4757',
+  blanc: '#FFFFFF',
+  noir: '#0C0C0E',
+  surface: '#141416',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  border: 'rgba(255, 255, 255, 0.06)',
+};
+
+interface PersonaEditorProps {
+  visible: boolean;
+  // null creates a new persona.
+  persona: Persona | null;
+  settings: AppSettings;
+  getModelName: (id: string) => string;
+  onSave: (persona: Persona) => void;
+  onClose: () => void;
+}
+
+export default function PersonaEditor({ visible, persona, settings, getModelName, onSave, onClose }: PersonaEditorProps) {
+  const [name, setName] = useState('');
+  const [systemPrompt, setSystemPrompt] = useState('');
+  const [pinModel, setPinModel] = useState(false);
+  const [pinSampling, setPinSampling] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(persona?.name ?? '');
+    setSystemPrompt(persona?.systemPrompt ?? '');
+    setPinModel(!!persona?.model);
+    setPinSampling(!!persona?.sampling);
+  }, [visible, persona]);
+
+  // Pinned values come from the persona when it already has them, otherwise from the current settings.
+  const model = persona?.model ?? settings.model;
+  const sampling = persona?.sampling ?? pickSampling(settings);
+  const canSave = !!name.trim() && !!systemPrompt.trim();
+
+  const save = () => {
+    if (!canSave) return;
+    onSave({
+      id: persona?.id ?? createPersonaId(),
+      name: name.trim(),
+      systemPrompt: systemPrompt.trim(),
+      ...(pinModel ? { model } : {}),
+      ...(pinSampling ? { sampling } : {}),
+    });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="formSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modal} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.close}>
+            <Feather name="x" size={22} color={THEME.text} />
+          </TouchableOpacity>
+          <Text style={styles.title}>{persona ? 'Edit Persona' : 'New Persona'}</Text>
+          <TouchableOpacity onPress={save} disabled={!canSave} style={[styles.saveBtn, !canSave && styles.saveBtnDisabled]}>
+            <Text style={styles.saveText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g. Code reviewer"
+            placeholderTextColor={THEME.textMuted}
+            value={name}
+            onChangeText={setName}
+          />
+
+          <Text style={styles.label}>System Prompt</Text>
+          <TextInput
+            style={[styles.input, styles.promptInput]}
+            placeholder="You are a careful senior engineer…"
+            placeholderTextColor={THEME.textMuted}
+            value={systemPrompt}
+            onChangeText={setSystemPrompt}
+            multiline
+            textAlignVertical="top"
+          />
+
+          <View style={styles.card}>
+            <View style={styles.switchRow}>
+              <View style={styles.switchInfo}>
+                <Text style={styles.switchLabel}>Default Model</Text>
+                <Text style={styles.switchHint} numberOfLines={1}>{getModelName(model)}</Text>
+              </View>
+              <Switch
+                value={pinModel}
+                onValueChange={setPinModel}
+                trackColor={{ false: THEME.border, true: THEME.red }}
+                thumbColor={THEME.blanc}
+              />
+            </View>
+            <View style={styles.divider} />
+            <View style={styles.switchRow}>
+              <View style={styles.switchInfo}>
+                <Text style={styles.switchLabel}>Sampling Overrides</Text>
+                <Text style={styles.switchHint} numberOfLines={2}>
+                  Temperature {sampling?.temperature?.toFixed(2)} · Top P {sampling?.topP?.toFixed(2)} · Max {sampling?.maxTokens}
+                </Text>
+              </View>
+              <Switch
+                value={pinSampling}
+                onValueChange={setPinSampling}
+                trackColor={{ false: THEME.border, true: THEME.red }}
+                thumbColor={THEME.blanc}
+              />
+            </View>
+          </View>
+          <Text style={styles.footnote}>
+            Pinned values are applied when the persona is picked. New pins use your current settings.
+          </Text>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+    backgroundColor: THEME.noir,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.border,
+  },
+  close: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  saveBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: THEME.red,
+  },
+  saveBtnDisabled: {
+    opacity: 0.4,
+  },
+  saveText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: THEME.blanc,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: THEME.text,
+  },
+  promptInput: {
+    minHeight: 160,
+  },
+  card: {
+    marginTop: 20,
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    paddingHorizontal: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 14,
+    gap: 12,
+  },
+  switchInfo: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: THEME.text,
+  },
+  switchHint: {
+    fontSize: 12,
+    color: THEME.textMuted,
+    marginTop: 2,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: THEME.border,
+  },
+  footnote: {
+    fontSize: 12,
+    color: THEME.textMuted,
+    marginTop: 10,
+    lineHeight: 17,
+  },
+});
@@ -0,0 +1,140 @@
+import { View, Text, StyleSheet, TouchableOpacity, Modal, FlatList } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Persona } from '@/types/persona';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  red: '#FF4757',
+  noir: '#0C0C0E',
+  surface: '#141416',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  border: 'rgba(255, 255, 255, 0.06)',
+  borderAccent: 'rgba(255, 71, 87, 0.3)',
+  glowRed: 'rgba(255, 71, 87, 0.15)',
+};
+
+interface PersonaPickerProps {
+  visible: boolean;
+  personas: Persona[];
+  activeId?: string;
+  onSelect: (persona: Persona | null) => void;
+  onManage: () => void;
+  onClose: () => void;
+}
+
+export default function PersonaPicker({ visible, personas, activeId, onSelect, onManage, onClose }: PersonaPickerProps) {
+  const renderRow = (persona: Persona | null) => {
+    const selected = (persona?.id ?? undefined) === activeId;
+    return (
+      <TouchableOpacity onPress={() => onSelect(persona)} style={[styles.item, selected && styles.itemSelected]}>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName}>{persona?.name ?? 'No persona'}</Text>
+          <Text style={styles.itemPrompt} numberOfLines={2}>
+            {persona?.systemPrompt ?? 'Send messages without a system prompt.'}
+          </Text>
+        </View>
+        {selected && <Feather name="check" size={16} color={THEME.red} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="formSheet" onRequestClose={onClose}>
+      <View style={styles.modal}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Persona</Text>
+          <TouchableOpacity onPress={onClose} style={styles.close}>
+            <Feather name="x" size={24} color={THEME.text} />
+          </TouchableOpacity>
+        </View>
+        <FlatList
+          data={personas}
+          keyExtractor={p => p.id}
+          contentContainerStyle={styles.list}
+          ListHeaderComponent={renderRow(null)}
+          renderItem={({ item }) => renderRow(item)}
+          ListFooterComponent={
+            <TouchableOpacity onPress={onManage} style={styles.manage}>
+              <Feather name="sliders" size={14} color={THEME.textSecondary} />
+              <Text style={styles.manageText}>Manage personas</Text>
+            </TouchableOpacity>
+          }
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+    backgroundColor: THEME.noir,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.border,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  close: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    padding: 16,
+    gap: 8,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  itemSelected: {
+    borderColor: THEME.borderAccent,
+    backgroundColor: THEME.glowRed,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  itemPrompt: {
+    fontSize: 12,
+    color: THEME.textMuted,
+    marginTop: 3,
+    lineHeight: 17,
+  },
+  manage: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 14,
+  },
+  manageText: {
+    fontSize: 14,
+    color: THEME.textSecondary,
+  },
+});
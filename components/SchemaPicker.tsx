@@ -0,0 +1,312 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, TextInput, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { ResponseSchema } from '@/types/chat';
+import { parseSchema } from '@/utils/jsonSchema';
+import { createSchemaId, loadSchemas, persistSchemas } from '@/utils/schemaStorage';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  red: '#FF4757',
+  blanc: '#FFFFFF',
+  noir: '#0C0C0E',
+  surface: '#141416',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  border: 'rgba(255, 255, 255, 0.06)',
+  borderAccent: 'rgba(255, 71, 87, 0.3)',
+  glowRed: 'rgba(255, 71, 87, 0.15)',
+};
+
+const MONO = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+const EXAMPLE_SCHEMA = `{
+  "type": "object",
+  "properties": {
+    "answer": { "type": "string" }
+  },
+  "required": ["answer"],
+  "additionalProperties": false
+}`;
+
+interface SchemaPickerProps {
+  visible: boolean;
+  active: ResponseSchema | null;
+  // Whether the current model accepts `response_format`; shown as a warning otherwise.
+  supported: boolean;
+  onSelect: (schema: ResponseSchema | null) => void;
+  onClose: () => void;
+}
+
+export default function SchemaPicker({ visible, active, supported, onSelect, onClose }: SchemaPickerProps) {
+  const [library, setLibrary] = useState<ResponseSchema[]>([]);
+  const [name, setName] = useState('');
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(active?.name ?? '');
+    setText(active ? JSON.stringify(active.schema, null, 2) : '');
+    setError(null);
+    loadSchemas().then(setLibrary);
+  }, [visible, active]);
+
+  // The editor contents as a schema, or null with the reason shown inline.
+  const readEditor = (): ResponseSchema | null => {
+    if (!name.trim()) {
+      setError('Give the schema a name.');
+      return null;
+    }
+    const parsed = parseSchema(text);
+    if (parsed.error !== undefined) {
+      setError(parsed.error);
+      return null;
+    }
+    setError(null);
+    const existing = library.find(s => s.name === name.trim());
+    return { id: existing?.id ?? active?.id ?? createSchemaId(), name: name.trim(), schema: parsed.schema };
+  };
+
+  const use = () => {
+    const schema = readEditor();
+    if (schema) onSelect(schema);
+  };
+
+  const saveToLibrary = () => {
+    const schema = readEditor();
+    if (!schema) return;
+    const next = [schema, ...library.filter(s => s.id !== schema.id)];
+    setLibrary(next);
+    persistSchemas(next);
+  };
+
+  const remove = (id: string) => {
+    const next = library.filter(s => s.id !== id);
+    setLibrary(next);
+    persistSchemas(next);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="formSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modal} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.close}>
+            <Feather name="x" size={22} color={THEME.text} />
+          </TouchableOpacity>
+          <Text style={styles.title}>JSON Mode</Text>
+          <TouchableOpacity onPress={use} style={styles.useBtn}>
+            <Text style={styles.useText}>Use</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {!supported && (
+            <View style={styles.warning}>
+              <Feather name="alert-triangle" size={14} color={THEME.red} />
+              <Text style={styles.warningText}>
+                The current model doesn&apos;t support response schemas. Replies are still checked, but the model isn&apos;t held to the schema.
+              </Text>
+            </View>
+          )}
+
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g. invoice"
+            placeholderTextColor={THEME.textMuted}
+            value={name}
+            onChangeText={setName}
+          />
+
+          <Text style={styles.label}>JSON Schema</Text>
+          <TextInput
+            style={[styles.input, styles.schemaInput]}
+            placeholder={EXAMPLE_SCHEMA}
+            placeholderTextColor={THEME.textMuted}
+            value={text}
+            onChangeText={setText}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            textAlignVertical="top"
+          />
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={saveToLibrary} style={styles.action}>
+              <Feather name="bookmark" size={14} color={THEME.textSecondary} />
+              <Text style={styles.actionText}>Save to library</Text>
+            </TouchableOpacity>
+            {active && (
+              <TouchableOpacity onPress={() => onSelect(null)} style={styles.action}>
+                <Feather name="slash" size={14} color={THEME.textSecondary} />
+                <Text style={styles.actionText}>Turn off JSON mode</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {library.length > 0 && <Text style={styles.label}>Saved Schemas</Text>}
+          {library.map(schema => {
+            const selected = schema.id === active?.id;
+            return (
+              <TouchableOpacity
+                key={schema.id}
+                onPress={() => onSelect(schema)}
+                style={[styles.item, selected && styles.itemSelected]}
+              >
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemName}>{schema.name}</Text>
+                  <Text style={styles.itemSchema} numberOfLines={2}>{JSON.stringify(schema.schema)}</Text>
+                </View>
+                {selected && <Feather name="check" size={16} color={THEME.red} />}
+                <TouchableOpacity onPress={() => remove(schema.id)} style={styles.delete}>
+                  <Feather name="trash-2" size={15} color={THEME.textMuted} />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+    backgroundColor: THEME.noir,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.border,
+  },
+  close: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  useBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: THEME.red,
+  },
+  useText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: THEME.blanc,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+    gap: 8,
+  },
+  warning: {
+    flexDirection: 'row',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: THEME.borderAccent,
+    backgroundColor: THEME.glowRed,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 12,
+    color: THEME.text,
+    lineHeight: 17,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: THEME.text,
+  },
+  schemaInput: {
+    minHeight: 200,
+    fontFamily: MONO,
+    fontSize: 13,
+  },
+  error: {
+    fontSize: 12,
+    color: THEME.red,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  actionText: {
+    fontSize: 13,
+    color: THEME.textSecondary,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  itemSelected: {
+    borderColor: THEME.borderAccent,
+    backgroundColor: THEME.glowRed,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  itemSchema: {
+    fontSize: 12,
+    fontFamily: MONO,
+    color: THEME.textMuted,
+    marginTop: 3,
+  },
+  delete: {
+    padding: 4,
+  },
+});
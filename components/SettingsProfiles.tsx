@@ -0,0 +1,307 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Platform, Alert } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { AppSettings, SettingsProfile } from '@/types/settings';
+import {
+  ProfilesState,
+  applyProfile,
+  createProfile,
+  loadProfiles,
+  parseProfileFile,
+  persistProfiles,
+  serializeProfile,
+} from '@/utils/profileStorage';
+import { exportTextFile, importTextFile, toFileName } from '@/utils/fileTransfer';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  red: '#FF4757',
+  noir: '#0C0C0E',
+  surface: '#141416',
+  surfaceHover: '#1C1C1F',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  border: 'rgba(255, 255, 255, 0.06)',
+  borderAccent: 'rgba(255, 71, 87, 0.3)',
+  glowRed: 'rgba(255, 71, 87, 0.15)',
+};
+
+interface SettingsProfilesProps {
+  settings: AppSettings;
+  getModelName: (id: string) => string;
+  // Replaces the current settings with the chosen profile's.
+  onApply: (settings: AppSettings) => void;
+}
+
+const notify = (title: string, message: string) => {
+  if (Platform.OS === 'web') {
+    if (typeof window !== 'undefined') window.alert(`${title}\n\n${message}`);
+    return;
+  }
+  Alert.alert(title, message);
+};
+
+const confirmDelete = (name: string, onConfirm: () => void) => {
+  if (Platform.OS === 'web') {
+    if (typeof window !== 'undefined' && window.confirm(`Delete "${name}"?`)) onConfirm();
+    return;
+  }
+  Alert.alert('Delete profile', `Delete "${name}"? Your current settings stay as they are.`, [
+    { text: 'Cancel', style: 'cancel' },
+    { text: 'Delete', style: 'destructive', onPress: onConfirm },
+  ]);
+};
+
+export default function SettingsProfiles({ settings, getModelName, onApply }: SettingsProfilesProps) {
+  const [state, setState] = useState<ProfilesState>({ profiles: [], activeId: null });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  useEffect(() => {
+    loadProfiles().then(setState);
+  }, []);
+
+  const update = (change: (prev: ProfilesState) => ProfilesState) => {
+    setState(prev => {
+      const next = change(prev);
+      persistProfiles(next);
+      return next;
+    });
+  };
+
+  const addProfile = (profile: SettingsProfile, active: boolean) => {
+    update(prev => ({
+      profiles: [...prev.profiles, profile],
+      activeId: active ? profile.id : prev.activeId,
+    }));
+  };
+
+  const switchTo = (profile: SettingsProfile) => {
+    onApply(applyProfile(settings, profile));
+    update(prev => ({ ...prev, activeId: profile.id }));
+  };
+
+  const saveCurrent = () => {
+    addProfile(createProfile(`Profile ${state.profiles.length + 1}`, settings), true);
+  };
+
+  const overwrite = (profile: SettingsProfile) => {
+    update(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(p => (p.id === profile.id ? { ...p, settings, updatedAt: Date.now() } : p)),
+    }));
+  };
+
+  const duplicate = (profile: SettingsProfile) => {
+    addProfile(createProfile(`${profile.name} copy`, profile.settings), false);
+  };
+
+  const remove = (profile: SettingsProfile) => {
+    confirmDelete(profile.name, () =>
+      update(prev => ({
+        profiles: prev.profiles.filter(p => p.id !== profile.id),
+        activeId: prev.activeId === profile.id ? null : prev.activeId,
+      }))
+    );
+  };
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (editingId && name) {
+      update(prev => ({
+        ...prev,
+        profiles: prev.profiles.map(p => (p.id === editingId ? { ...p, name, updatedAt: Date.now() } : p)),
+      }));
+    }
+    setEditingId(null);
+  };
+
+  const exportProfile = async (profile: SettingsProfile) => {
+    try {
+      await exportTextFile(toFileName(profile.name, 'json'), serializeProfile(profile));
+    } catch (e: any) {
+      notify('Export failed', e?.message || String(e));
+    }
+  };
+
+  const importProfile = async () => {
+    try {
+      const text = await importTextFile();
+      if (!text) return;
+      const { name, settings: imported, issues } = parseProfileFile(text);
+      addProfile(createProfile(name, imported), false);
+      if (issues.length) {
+        notify(
+          'Profile imported with changes',
+          `These fields were reset to their defaults:\n${issues.map(i => `• ${i.field}: ${i.problem}`).join('\n')}`
+        );
+      }
+    } catch (e: any) {
+      notify('Import failed', e?.message || String(e));
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      {state.profiles.length === 0 && (
+        <Text style={styles.hint}>
+          Save the current settings as a profile to switch between setups, or share one with another device.
+        </Text>
+      )}
+      {state.profiles.map((profile, i) => {
+        const active = profile.id === state.activeId;
+        const editing = profile.id === editingId;
+        return (
+          <View key={profile.id}>
+            {i > 0 && <View style={styles.divider} />}
+            <View style={styles.row}>
+              <TouchableOpacity
+                style={styles.info}
+                onPress={() => !editing && !active && switchTo(profile)}
+                accessibilityLabel={`Switch to ${profile.name}`}
+              >
+                <View style={styles.nameRow}>
+                  {active && <Feather name="check" size={14} color={THEME.red} />}
+                  {editing ? (
+                    <TextInput
+                      style={styles.renameInput}
+                      value={draftName}
+                      onChangeText={setDraftName}
+                      onSubmitEditing={commitRename}
+                      onBlur={commitRename}
+                      autoFocus
+                      selectTextOnFocus
+                    />
+                  ) : (
+                    <Text style={[styles.name, active && styles.nameActive]} numberOfLines={1}>
+                      {profile.name}
+                    </Text>
+                  )}
+                </View>
+                <Text style={styles.hint} numberOfLines={1}>
+                  {getModelName(profile.settings.model)} · temp {profile.settings.temperature.toFixed(2)}
+                </Text>
+              </TouchableOpacity>
+              {active && (
+                <TouchableOpacity
+                  onPress={() => overwrite(profile)}
+                  style={styles.iconBtn}
+                  accessibilityLabel="Save current settings to this profile"
+                >
+                  <Feather name="save" size={15} color={THEME.textSecondary} />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                onPress={() => {
+                  setEditingId(profile.id);
+                  setDraftName(profile.name);
+                }}
+                style={styles.iconBtn}
+                accessibilityLabel="Rename profile"
+              >
+                <Feather name="edit-2" size={15} color={THEME.textSecondary} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => duplicate(profile)} style={styles.iconBtn} accessibilityLabel="Duplicate profile">
+                <Feather name="copy" size={15} color={THEME.textSecondary} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => exportProfile(profile)} style={styles.iconBtn} accessibilityLabel="Export profile">
+                <Feather name="share" size={15} color={THEME.textSecondary} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => remove(profile)} style={styles.iconBtn} accessibilityLabel="Delete profile">
+                <Feather name="trash-2" size={15} color={THEME.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+      <View style={styles.actions}>
+        <TouchableOpacity onPress={saveCurrent} style={styles.action}>
+          <Feather name="plus" size={15} color={THEME.red} />
+          <Text style={styles.actionText}>Save current</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={importProfile} style={styles.action}>
+          <Feather name="download" size={15} color={THEME.red} />
+          <Text style={styles.actionText}>Import file</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  info: {
+    flex: 1,
+    marginRight: 4,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  name: {
+    flexShrink: 1,
+    fontSize: 15,
+    color: THEME.text,
+  },
+  nameActive: {
+    color: THEME.red,
+    fontWeight: '600',
+  },
+  renameInput: {
+    flex: 1,
+    fontSize: 15,
+    color: THEME.text,
+    paddingVertical: 2,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.borderAccent,
+  },
+  hint: {
+    fontSize: 12,
+    color: THEME.textMuted,
+    marginTop: 2,
+  },
+  iconBtn: {
+    width: 30,
+    height: 30,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: THEME.border,
+    marginVertical: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 18,
+    marginTop: 14,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: THEME.red,
+  },
+});
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Linking } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { MessageCitation } from '@/types/chat';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  red: '#FF4757',
+  surface: '#141416',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  border: 'rgba(255, 255, 255, 0.06)',
+};
+
+const hostOf = (url: string): string => {
+  const match = url.match(/^[a-z]+:\/\/(?:www\.)?([^/?#]+)/i);
+  return match ? match[1] : url;
+};
+
+interface SourcesPanelProps {
+  citations: MessageCitation[];
+}
+
+export default function SourcesPanel({ citations }: SourcesPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <View style={styles.panel}>
+      <TouchableOpacity style={styles.header} onPress={() => setExpanded(v => !v)}>
+        <Feather name="globe" size={13} color={THEME.textSecondary} />
+        <Text style={styles.title}>Sources</Text>
+        <Text style={styles.count}>{citations.length}</Text>
+        <Feather name={expanded ? 'chevron-down' : 'chevron-right'} size={14} color={THEME.textSecondary} />
+      </TouchableOpacity>
+      {expanded && (
+        <View style={styles.list}>
+          {citations.map((c, i) => (
+            <TouchableOpacity
+              key={i}
+              style={styles.item}
+              onPress={() => c.url && Linking.openURL(c.url)}
+              disabled={!c.url}
+              accessibilityRole="link"
+            >
+              <Text style={styles.index}>{i + 1}</Text>
+              <View style={styles.itemBody}>
+                <Text style={styles.itemTitle} numberOfLines={2}>{c.title}</Text>
+                {!!c.url && <Text style={styles.itemUrl} numberOfLines={1}>{hostOf(c.url)}</Text>}
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    marginTop: 10,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    borderRadius: 10,
+    backgroundColor: THEME.surface,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textSecondary,
+  },
+  count: {
+    flex: 1,
+    fontSize: 12,
+    color: THEME.textMuted,
+  },
+  list: {
+    borderTopWidth: 1,
+    borderTopColor: THEME.border,
+    paddingVertical: 4,
+  },
+  item: {
+    flexDirection: 'row',
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  index: {
+    width: 16,
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.red,
+    textAlign: 'right',
+  },
+  itemBody: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: THEME.text,
+  },
+  itemUrl: {
+    fontSize: 11,
+    color: THEME.textMuted,
+    marginTop: 1,
+  },
+});
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Platform } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { MessageToolCall } from '@/types/chat';
+import { toolLabel } from '@/utils/chatTools';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FRENCH DESIGNER THEME - Matching index.tsx
+// ═══════════════════════════════════════════════════════════════════════════
+
+const THEME = {
+  red: '#FF4757',
+  surface: '#141416',
+  text: '#FAFAFA',
+  textSecondary: '#A1A1A6',
+  textMuted: '#636366',
+  border: 'rgba(255, 255, 255, 0.06)',
+};
+
+const MONO = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+// Arguments re-indented when they parse, shown as sent otherwise.
+const formatArguments = (raw: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+};
+
+interface ToolCallCardProps {
+  call: MessageToolCall;
+}
+
+export default function ToolCallCard({ call }: ToolCallCardProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <View style={styles.card}>
+      <TouchableOpacity style={styles.header} onPress={() => setExpanded(v => !v)}>
+        {call.status === 'running' ? (
+          <ActivityIndicator size="small" color={THEME.textSecondary} />
+        ) : (
+          <Feather
+            name={call.status === 'error' ? 'alert-triangle' : 'tool'}
+            size={13}
+            color={call.status === 'error' ? THEME.red : THEME.textSecondary}
+          />
+        )}
+        <Text style={styles.title} numberOfLines={1}>{toolLabel(call.name)}</Text>
+        <Feather name={expanded ? 'chevron-down' : 'chevron-right'} size={14} color={THEME.textSecondary} />
+      </TouchableOpacity>
+      {expanded && (
+        <View style={styles.body}>
+          <Text style={styles.label}>Input</Text>
+          <Text style={styles.code} selectable>{formatArguments(call.arguments) || '{}'}</Text>
+          {call.result !== undefined && (
+            <>
+              <Text style={styles.label}>{call.status === 'error' ? 'Error' : 'Result'}</Text>
+              <Text style={styles.code} selectable numberOfLines={20}>{call.result}</Text>
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginVertical: 6,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    borderRadius: 10,
+    backgroundColor: THEME.surface,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textSecondary,
+  },
+  body: {
+    paddingHorizontal: 12,
+    paddingBottom: 10,
+    gap: 4,
+  },
+  label: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: THEME.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 4,
+  },
+  code: {
+    fontFamily: MONO,
+    fontSize: 12,
+    lineHeight: 17,
+    color: THEME.text,
+  },
+});
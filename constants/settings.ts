@@ -14,9 +14,20 @@ export const DEFAULT_SETTINGS: AppSettings = {
   includeVeniceSystemPrompt: true,
   stripThinking: false,
   disableThinking: false,
+  enableTools: true,
+  contextStrategy: 'trim',
+  spendingCapUsd: 0,
+  spendingCapPeriod: 'month',
+  spendingCapMode: 'warn',
   imageModel: '',
   imageSteps: 8,
   imageWidth: 1024,
   imageHeight: 576,
   imageGuidanceScale: 7.5,
+  imageVariants: 1,
+  imageNegativePrompt: '',
+  imageStylePreset: '',
+  imageSeed: 0,
+  imageSeedLocked: false,
+  imageConcurrency: 2,
 };
@@ -4,3 +4,9 @@
 export const VENICE_MODELS_ENDPOINT = '/api/models';
 export const VENICE_CHAT_COMPLETIONS_ENDPOINT = '/api/chat';
 export const VENICE_IMAGE_GENERATIONS_ENDPOINT = '/api/image';
+export const VENICE_IMAGE_STYLES_ENDPOINT = '/api/image/styles';
+export const VENICE_IMAGE_EDIT_ENDPOINT = '/api/image/edit';
+export const VENICE_IMAGE_MULTI_EDIT_ENDPOINT = '/api/image/multi-edit';
+export const VENICE_IMAGE_UPSCALE_ENDPOINT = '/api/image/upscale';
+export const VENICE_IMAGE_BACKGROUND_REMOVE_ENDPOINT = '/api/image/background-remove';
+export const VENICE_BALANCE_ENDPOINT = '/api/billing/balance';
@@ -0,0 +1,132 @@
+import { AppSettings } from '@/types/settings';
+import { Persona } from '@/types/persona';
+
+export interface MessageMetrics {
+  tokensPerSecond?: number;
+  totalTokens?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  cost?: number;
+  responseTime?: number;
+  // Seconds until the first token arrived.
+  firstTokenTime?: number;
+}
+
+export type ChatErrorKind =
+  | 'no_api_key'
+  | 'unauthorized'
+  | 'rate_limit'
+  | 'insufficient_balance'
+  | 'context_length'
+  | 'model_unavailable'
+  | 'invalid_request'
+  | 'server'
+  | 'network'
+  | 'connection_lost'
+  | 'spending_cap'
+  | 'unknown';
+
+// Suggested remedy shown next to Retry on a failed reply.
+export type ChatErrorFix = 'add_key' | 'switch_model' | 'shorten_history' | 'review_usage';
+
+export interface MessageError {
+  kind: ChatErrorKind;
+  title: string;
+  message: string;
+  status?: number;
+  retryAfter?: number;
+  fix?: ChatErrorFix;
+}
+
+export interface MessageAttachment {
+  id: string;
+  // data: URL so the image survives persistence and can be sent as-is.
+  uri: string;
+  mimeType: string;
+  width?: number;
+  height?: number;
+}
+
+// A web search source the answer can cite; `[n]` markers refer to position n in the list.
+export interface MessageCitation {
+  title: string;
+  url: string;
+  snippet?: string;
+  date?: string;
+}
+
+// One tool the model ran while answering. `offset` is where in the reply's
+// content it happened, so the call renders inline between the surrounding text.
+export interface MessageToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+  status: 'running' | 'done' | 'error';
+  result?: string;
+  offset: number;
+}
+
+// A JSON Schema replies must follow in JSON mode; also the shape of a saved library entry.
+export interface ResponseSchema {
+  id: string;
+  name: string;
+  schema: Record<string, any>;
+}
+
+// Client-side validation of a JSON-mode reply against the schema it was asked for.
+export interface StructuredCheck {
+  schemaName: string;
+  valid: boolean;
+  errors: string[];
+}
+
+export interface Message {
+  role: 'user' | 'assistant';
+  content: string;
+  id: string;
+  isStreaming?: boolean;
+  // The user stopped the reply; `content` and `reasoning` hold what had arrived.
+  stopped?: boolean;
+  // Stream chunks that could not be parsed, so `content` may have gaps.
+  skippedChunks?: number;
+  reasoning?: string;
+  metrics?: MessageMetrics;
+  error?: MessageError;
+  attachments?: MessageAttachment[];
+  citations?: MessageCitation[];
+  toolCalls?: MessageToolCall[];
+  structured?: StructuredCheck;
+  // Set on the first message of a fork: every alternate version of the thread
+  // from this point on. The live version is the one in the message list itself.
+  versions?: Message[][];
+  versionIndex?: number;
+}
+
+// Stands in for every turn up to and including `throughId` once a long thread is summarized.
+export interface ContextSummary {
+  throughId: string;
+  text: string;
+}
+
+// Chat-relevant slice of AppSettings recorded with each conversation.
+export type ConversationSettings = Omit<
+  AppSettings,
+  | 'imageModel' | 'imageSteps' | 'imageWidth' | 'imageHeight' | 'imageGuidanceScale'
+  | 'imageVariants' | 'imageNegativePrompt' | 'imageStylePreset' | 'imageSeed' | 'imageSeedLocked'
+  | 'imageConcurrency'
+  | 'spendingCapUsd' | 'spendingCapPeriod' | 'spendingCapMode'
+>;
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  model: string;
+  settings: ConversationSettings;
+  // Copied in full so the thread keeps its system prompt if the library entry changes.
+  persona?: Persona;
+  contextSummary?: ContextSummary;
+  responseSchema?: ResponseSchema;
+  messages: Message[];
+}
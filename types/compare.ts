@@ -0,0 +1,21 @@
+import { MessageError, MessageMetrics } from '@/types/chat';
+
+// One model's answer in a comparison.
+export interface CompareResult {
+  model: string;
+  content: string;
+  reasoning?: string;
+  metrics?: MessageMetrics;
+  error?: MessageError;
+  isStreaming?: boolean;
+}
+
+// One prompt sent to several models side by side.
+export interface Comparison {
+  id: string;
+  prompt: string;
+  createdAt: number;
+  results: CompareResult[];
+  // Model id of the answer voted best.
+  winner?: string;
+}
@@ -0,0 +1,33 @@
+// Everything needed to reproduce a generation.
+export interface ImageGenerationParams {
+  model: string;
+  prompt: string;
+  width: number;
+  height: number;
+  steps: number;
+  // Left out for models without a guidance scale.
+  cfgScale?: number;
+  negativePrompt?: string;
+  stylePreset?: string;
+  seed?: number;
+}
+
+// How an image was derived from others in the gallery; absent for plain generations.
+export type ImageOperation = 'edit' | 'multi-edit' | 'upscale' | 'background-remove';
+
+export interface GeneratedImage {
+  id: string;
+  prompt: string;
+  modelId: string;
+  createdAt: number;
+  // data: URL on web, file:// URI in the document directory on native.
+  imageData: string;
+  width?: number;
+  height?: number;
+  params?: ImageGenerationParams;
+  // Shared by the variants of one generation so the gallery can show them together.
+  batchId?: string;
+  operation?: ImageOperation;
+  // Gallery ids of the images this one was made from, base image first.
+  sourceIds?: string[];
+}
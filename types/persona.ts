@@ -0,0 +1,12 @@
+import { AppSettings } from '@/types/settings';
+
+export type PersonaSamplingKey = 'temperature' | 'topP' | 'minP' | 'topK' | 'repetitionPenalty' | 'maxTokens';
+
+// A reusable system prompt. `model` and `sampling` apply while the persona is picked and are undone when it is cleared.
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  model?: string;
+  sampling?: Partial<Pick<AppSettings, PersonaSamplingKey>>;
+}
@@ -1,5 +1,10 @@
+import { SpendingCapMode, SpendingCapPeriod } from '@/types/usage';
+
 export type WebSearchMode = 'off' | 'auto' | 'on';
 
+// What to do when a thread outgrows the model's context window.
+export type ContextStrategy = 'trim' | 'summarize';
+
 export interface AppSettings {
   model: string;
   temperature: number;
@@ -14,9 +19,35 @@ export interface AppSettings {
   includeVeniceSystemPrompt: boolean;
   stripThinking: boolean;
   disableThinking: boolean;
+  // Offer the local tools to models that support function calling.
+  enableTools: boolean;
+  contextStrategy: ContextStrategy;
+  // USD per period; 0 turns the cap off.
+  spendingCapUsd: number;
+  spendingCapPeriod: SpendingCapPeriod;
+  spendingCapMode: SpendingCapMode;
   imageModel: string;
   imageSteps: number;
   imageWidth: number;
   imageHeight: number;
   imageGuidanceScale: number;
+  // How many images each generation makes, 1–4.
+  imageVariants: number;
+  imageNegativePrompt: string;
+  // A name from /image/styles; empty for none.
+  imageStylePreset: string;
+  // Reused for every generation while locked; otherwise each one draws a new seed.
+  imageSeed: number;
+  imageSeedLocked: boolean;
+  // How many Create tab jobs run at once; the rest wait in the queue.
+  imageConcurrency: number;
+}
+
+// A named, reusable copy of the settings, e.g. "Precise coding".
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  settings: AppSettings;
+  createdAt: number;
+  updatedAt: number;
 }
@@ -0,0 +1,26 @@
+export type UsageKind = 'chat' | 'image' | 'summary' | 'compare';
+
+// One billable call, as recorded in the usage ledger.
+export interface UsageEntry {
+  id: string;
+  kind: UsageKind;
+  model: string;
+  createdAt: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+  // Estimated from the model's advertised pricing; undefined when the model has none.
+  costUsd?: number;
+  conversationId?: string;
+}
+
+export type SpendingCapPeriod = 'day' | 'month';
+export type SpendingCapMode = 'warn' | 'block';
+
+export interface UsageTotals {
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  calls: number;
+}
@@ -1,5 +1,7 @@
 export type VeniceModelType = 'text' | 'image' | 'audio' | 'embedding' | 'rerank' | string;
 
+export type VeniceConstraint = { default?: number; max?: number; min?: number } | number;
+
 export interface VeniceModel {
   id: string;
   object?: string;
@@ -28,16 +30,19 @@ export interface VeniceModel {
       [key: string]: any;
     };
     constraints: {
-      temperature?: { default?: number; max?: number; min?: number } | number;
-      top_p?: { default?: number; max?: number; min?: number } | number;
-      max_output_tokens?: { default?: number; max?: number; min?: number } | number;
-      maxOutputTokens?: { default?: number; max?: number; min?: number } | number;
-      max_tokens?: { default?: number; max?: number; min?: number } | number;
-      response_tokens?: { default?: number; max?: number; min?: number } | number;
-      steps?: { default?: number; max?: number; min?: number } | number;
-      width?: { default?: number; max?: number; min?: number } | number;
-      height?: { default?: number; max?: number; min?: number } | number;
-      guidance_scale?: { default?: number; max?: number; min?: number } | number;
+      temperature?: VeniceConstraint;
+      top_p?: VeniceConstraint;
+      min_p?: VeniceConstraint;
+      top_k?: VeniceConstraint;
+      repetition_penalty?: VeniceConstraint;
+      max_output_tokens?: VeniceConstraint;
+      maxOutputTokens?: VeniceConstraint;
+      max_tokens?: VeniceConstraint;
+      response_tokens?: VeniceConstraint;
+      steps?: VeniceConstraint;
+      width?: VeniceConstraint;
+      height?: VeniceConstraint;
+      guidance_scale?: VeniceConstraint;
       widthHeightDivisor?: number;
       [key: string]: any;
     };
@@ -47,3 +52,219 @@ export interface VeniceModel {
     beta?: boolean;
   };
 }
+
+// Sampling fields of a chat completion request, as sent to /chat/completions.
+export interface VeniceSamplingParams {
+  temperature?: number;
+  top_p?: number;
+  min_p?: number;
+  top_k?: number;
+  repetition_penalty?: number;
+  max_completion_tokens?: number;
+}
+
+export interface VeniceModelsResponse {
+  object?: string;
+  data: VeniceModel[];
+}
+
+export type VeniceChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+// OpenAI-style multimodal content, used when a message carries images.
+export type VeniceChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+// A function call the model asks for; `arguments` is a JSON string the model wrote.
+export interface VeniceToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export interface VeniceChatMessage {
+  role: VeniceChatRole;
+  content: string | VeniceChatContentPart[];
+  // Assistant turns that ask for tools, and the `tool` replies that answer them.
+  tool_calls?: VeniceToolCall[];
+  tool_call_id?: string;
+}
+
+export interface VeniceToolDefinition {
+  type: 'function';
+  function: { name: string; description: string; parameters: Record<string, unknown> };
+}
+
+export interface VeniceParameters {
+  include_venice_system_prompt?: boolean;
+  strip_thinking?: boolean;
+  disable_thinking?: boolean;
+  enable_web_search?: 'off' | 'auto' | 'on';
+  enable_web_citations?: boolean;
+  include_search_results_in_stream?: boolean;
+  [key: string]: unknown;
+}
+
+// One web search result, as returned in `venice_parameters.web_search_citations`.
+export interface VeniceSearchCitation {
+  title?: string;
+  url: string;
+  content?: string;
+  date?: string;
+}
+
+// What Venice echoes back under `venice_parameters` on a completion or its first chunk.
+export interface VeniceResponseParameters {
+  web_search_citations?: VeniceSearchCitation[];
+  [key: string]: unknown;
+}
+
+export type VeniceResponseFormat =
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; strict?: boolean; schema: Record<string, unknown> } };
+
+export interface VeniceChatRequest extends VeniceSamplingParams {
+  model: string;
+  messages: VeniceChatMessage[];
+  stream?: boolean;
+  venice_parameters?: VeniceParameters;
+  response_format?: VeniceResponseFormat;
+  tools?: VeniceToolDefinition[];
+  tool_choice?: 'auto' | 'none';
+}
+
+export interface VeniceUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+export interface VeniceChatCompletion {
+  id?: string;
+  model?: string;
+  choices: {
+    index?: number;
+    finish_reason?: string | null;
+    message: { role: VeniceChatRole; content: string | null; reasoning?: string | null; tool_calls?: VeniceToolCall[] };
+  }[];
+  usage?: VeniceUsage;
+  venice_parameters?: VeniceResponseParameters;
+}
+
+// A streamed piece of a tool call; fragments sharing an `index` concatenate into one call.
+export interface VeniceToolCallFragment {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: { name?: string; arguments?: string };
+}
+
+// One `data:` payload of a streamed completion.
+export interface VeniceChatChunk {
+  id?: string;
+  model?: string;
+  choices?: {
+    index?: number;
+    finish_reason?: string | null;
+    delta?: {
+      role?: VeniceChatRole;
+      content?: string | null;
+      reasoning?: string | null;
+      tool_calls?: VeniceToolCallFragment[];
+    };
+  }[];
+  usage?: VeniceUsage;
+  venice_parameters?: VeniceResponseParameters;
+}
+
+// What streamChat yields: already-unpacked pieces of a streamed reply.
+export type VeniceChatDelta =
+  | { type: 'content'; text: string }
+  | { type: 'reasoning'; text: string }
+  | { type: 'usage'; usage: VeniceUsage }
+  | { type: 'citations'; citations: VeniceSearchCitation[] }
+  | { type: 'tool_call'; fragment: VeniceToolCallFragment }
+  // A stream chunk that could not be parsed; whatever it carried is missing from the reply.
+  | { type: 'skipped'; data: string };
+
+export interface VeniceImageGenerateRequest {
+  model: string;
+  prompt: string;
+  width?: number;
+  height?: number;
+  steps?: number;
+  cfg_scale?: number;
+  format?: 'webp' | 'png' | 'jpeg';
+  hide_watermark?: boolean;
+  seed?: number;
+  negative_prompt?: string;
+  style_preset?: string;
+  variants?: number;
+}
+
+export interface VeniceImageGenerateResponse {
+  id?: string;
+  images: string[];
+  request?: Record<string, unknown>;
+  timing?: Record<string, number>;
+}
+
+// Names accepted as `style_preset`.
+export interface VeniceImageStylesResponse {
+  data: string[];
+}
+
+// Images are sent as data: URLs (or base64) throughout.
+export interface VeniceImageEditRequest {
+  model: string;
+  prompt: string;
+  image: string;
+  aspect_ratio?: string;
+  output_format?: 'png' | 'jpeg' | 'webp';
+}
+
+// Composites up to three images; the first is the base the prompt edits.
+export interface VeniceImageMultiEditRequest {
+  modelId: string;
+  prompt: string;
+  images: string[];
+  aspect_ratio?: string;
+  output_format?: 'png' | 'jpeg' | 'webp';
+}
+
+export interface VeniceImageUpscaleRequest {
+  image: string;
+  // 1 runs the enhancer alone, which then has to be on.
+  scale: number;
+  enhance?: boolean;
+  enhanceCreativity?: number;
+  enhancePrompt?: string;
+  replication?: number;
+}
+
+export interface VeniceImageBackgroundRemoveRequest {
+  image: string;
+}
+
+// How the /api proxy wraps a binary image response.
+export interface VeniceImageFileResponse {
+  data: string;
+  contentType?: string;
+  bytes?: number;
+  model?: string;
+  modelName?: string;
+}
+
+export interface VeniceBalance {
+  canConsume?: boolean;
+  consumptionCurrency?: string;
+  balances?: { usd?: number; diem?: number; vcu?: number };
+}
+
+// Error body shape the /api proxy passes through (Venice errors or its own, e.g. NO_API_KEY).
+export interface VeniceErrorBody {
+  error?: string | { message?: string; code?: string; type?: string };
+  code?: string;
+  message?: string;
+  details?: unknown;
+}
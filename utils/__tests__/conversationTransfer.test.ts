@@ -0,0 +1,141 @@
+import { DEFAULT_SETTINGS } from '@/constants/settings';
+import { Conversation } from '@/types/chat';
+import { toConversationSettings } from '@/utils/conversationStorage';
+import { conversationToJson, parseConversationFile } from '@/utils/conversationTransfer';
+
+const lossless = (conversation: Record<string, unknown>) =>
+  JSON.stringify({ kind: 'vgpt-conversation', version: 1, conversation });
+
+const CONVERSATION: Conversation = {
+  id: 'c1',
+  title: 'Paris trip',
+  createdAt: 1760000000000,
+  updatedAt: 1760000500000,
+  model: 'llama-3.3-70b',
+  settings: toConversationSettings({ ...DEFAULT_SETTINGS, temperature: 0.4 }),
+  persona: { id: 'p1', name: 'Guide', systemPrompt: 'You plan trips.', sampling: { temperature: 0.9 } },
+  messages: [
+    { id: 'm1', role: 'user', content: 'Plan a day in Paris' },
+    {
+      id: 'm2',
+      role: 'assistant',
+      content: 'Start at the Louvre.',
+      metrics: { tokensPerSecond: 41.2, totalTokens: 120 },
+      citations: [{ title: 'Louvre', url: 'https://www.louvre.fr' }],
+    },
+  ],
+};
+
+describe('parseConversationFile', () => {
+  it('reads back its own lossless export under a fresh id', () => {
+    const imported = parseConversationFile(conversationToJson(CONVERSATION), DEFAULT_SETTINGS);
+    expect(imported.id).not.toBe(CONVERSATION.id);
+    expect({ ...imported, id: CONVERSATION.id, createdAt: CONVERSATION.createdAt, updatedAt: CONVERSATION.updatedAt })
+      .toEqual(CONVERSATION);
+  });
+
+  it('keeps only known message fields of the right type', () => {
+    const { messages } = parseConversationFile(
+      lossless({
+        title: 'Mixed',
+        messages: [
+          { id: 'u', role: 'user', content: 'hi', isStreaming: true, injected: '<script>' },
+          { id: 's', role: 'system', content: 'ignored' },
+          { id: 'n', role: 'assistant', content: 42 },
+          {
+            id: 'a',
+            role: 'assistant',
+            content: 'hello',
+            metrics: { totalTokens: '9000', cost: 0.001 },
+            error: { kind: 'made_up', title: 'x', message: 'y' },
+            attachments: [
+              { id: 'ok', uri: 'data:image/png;base64,AAAA', mimeType: 'image/png' },
+              { id: 'remote', uri: 'https://example.com/a.png', mimeType: 'image/png' },
+            ],
+            toolCalls: [{ id: 't', name: 'calculator', arguments: '{}', status: 'running', offset: 3 }],
+            stopped: 'yes',
+          },
+        ],
+      }),
+      DEFAULT_SETTINGS
+    );
+    expect(messages).toEqual([
+      { id: 'u', role: 'user', content: 'hi' },
+      {
+        id: 'a',
+        role: 'assistant',
+        content: 'hello',
+        metrics: { cost: 0.001 },
+        attachments: [{ id: 'ok', uri: 'data:image/png;base64,AAAA', mimeType: 'image/png' }],
+        // A call still running when the file was written never finished.
+        toolCalls: [{ id: 't', name: 'calculator', arguments: '{}', status: 'error', offset: 3 }],
+      },
+    ]);
+  });
+
+  it('gives messages without ids distinct ones, inside versions too', () => {
+    const { messages } = parseConversationFile(
+      lossless({
+        messages: [
+          { role: 'user', content: 'hi' },
+          {
+            role: 'assistant',
+            content: 'second answer',
+            versionIndex: 1,
+            versions: [
+              [{ role: 'assistant', content: 'first answer' }, { role: 'user', content: 'thanks' }],
+              [{ role: 'assistant', content: 'second answer' }],
+            ],
+          },
+        ],
+      }),
+      DEFAULT_SETTINGS
+    );
+    const ids = [messages[0].id, messages[1].id, ...messages[1].versions!.flat().map(m => m.id)];
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('checks the settings like stored ones, falling back to the current values', () => {
+    const current = { ...DEFAULT_SETTINGS, model: 'qwen-2.5-vl', topP: 0.8 };
+    const imported = parseConversationFile(
+      lossless({
+        messages: [{ id: 'u', role: 'user', content: 'hi' }],
+        settings: { temperature: 1.3, topP: 'high', spendingCapUsd: 1000, unknown: true },
+      }),
+      current
+    );
+    expect(imported.model).toBe('qwen-2.5-vl');
+    expect(imported.settings.temperature).toBe(1.3);
+    expect(imported.settings.topP).toBe(0.8);
+    expect(imported.settings).not.toHaveProperty('spendingCapUsd');
+    expect(imported.settings).not.toHaveProperty('unknown');
+  });
+
+  it('reads an OpenAI messages array, keeping the system prompt as a persona', () => {
+    const imported = parseConversationFile(
+      JSON.stringify({
+        model: 'gpt',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: [{ type: 'text', text: 'Capital of France?' }] },
+          { role: 'assistant', content: 'Paris.' },
+          { role: 'tool', content: 'ignored' },
+        ],
+      }),
+      DEFAULT_SETTINGS
+    );
+    expect(imported.persona?.systemPrompt).toBe('Be brief.');
+    expect(imported.messages.map(m => [m.role, m.content])).toEqual([
+      ['user', 'Capital of France?'],
+      ['assistant', 'Paris.'],
+    ]);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseConversationFile('{not json', DEFAULT_SETTINGS)).toThrow('The file is not valid JSON.');
+    expect(() => parseConversationFile('{"hello":1}', DEFAULT_SETTINGS)).toThrow(/not a conversation export/);
+    expect(() => parseConversationFile(lossless({ messages: [{ role: 'system', content: 'x' }] }), DEFAULT_SETTINGS))
+      .toThrow('The file has no user or assistant messages.');
+    expect(() => parseConversationFile(lossless({ title: 'x' }), DEFAULT_SETTINGS)).toThrow(/incomplete/);
+  });
+});
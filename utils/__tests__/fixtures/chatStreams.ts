@@ -0,0 +1,75 @@
+/**
+ * Chat completion event streams as they arrive over the wire, one string per
+ * network read. Split points are deliberate: mid-line, mid-JSON and between
+ * the \r and \n of a line ending.
+ */
+
+const chunk = (delta: Record<string, unknown>, extra: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    id: 'chatcmpl-7f3a',
+    object: 'chat.completion.chunk',
+    created: 1760000000,
+    model: 'venice-uncensored',
+    choices: [{ index: 0, delta, finish_reason: null }],
+    ...extra,
+  });
+
+const USAGE = { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 };
+
+// A complete reply with a keep-alive comment and a usage chunk.
+export const COMPLETE_STREAM = [
+  ': ping\n\n',
+  `data: ${chunk({ role: 'assistant', content: 'Bon' })}\n\n`,
+  `data: ${chunk({ content: 'jour' })}\n\ndata: ${chunk({ content: '!' })}\n\n`,
+  `data: ${chunk({}, { usage: USAGE })}\n\n`,
+  'data: [DONE]\n\n',
+];
+
+// The same reply with CRLF line endings, split mid-line and inside a \r\n.
+export const CRLF_SPLIT_STREAM = (() => {
+  const whole = [
+    `data: ${chunk({ content: 'Bon' })}`,
+    '',
+    `data: ${chunk({ content: 'jour' })}`,
+    '',
+    'data: [DONE]',
+    '',
+    '',
+  ].join('\r\n');
+  const first = whole.indexOf('"Bon"');
+  const crlf = whole.indexOf('\r\n', first) + 1;
+  return [whole.slice(0, first), whole.slice(first, crlf), whole.slice(crlf, crlf + 20), whole.slice(crlf + 20)];
+})();
+
+// One JSON payload spread over several `data:` lines, which join with a newline.
+export const MULTILINE_DATA_STREAM = [
+  'data: {"choices":[{"index":0,\n',
+  'data: "delta":{"content":"multi"}}]}\n\n',
+  'data: [DONE]\n\n',
+];
+
+// A malformed chunk between two good ones.
+export const MALFORMED_CHUNK_STREAM = [
+  `data: ${chunk({ content: 'a' })}\n\n`,
+  'data: {"choices":[{"delta":{"content":\n\n',
+  `data: ${chunk({ content: 'b' })}\n\n`,
+  'data: [DONE]\n\n',
+];
+
+// Venice reports a failure inside the stream after some text has arrived.
+export const INLINE_ERROR_STREAM = [
+  `data: ${chunk({ content: 'Par' })}\n\n`,
+  'data: {"error":{"message":"Model is overloaded","code":"MODEL_OVERLOADED"}}\n\n',
+];
+
+// A named `error` event whose data isn't JSON.
+export const ERROR_EVENT_STREAM = [
+  `data: ${chunk({ content: 'Par' })}\n\n`,
+  'event: error\ndata: upstream timed out\n\n',
+];
+
+// The connection drops after two chunks: no [DONE].
+export const TRUNCATED_STREAM = [
+  `data: ${chunk({ content: 'Bon' })}\n\n`,
+  `data: ${chunk({ content: 'jour' })}\n\n`,
+];
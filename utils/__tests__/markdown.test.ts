@@ -0,0 +1,42 @@
+import { parseInline, parseMarkdown } from '@/utils/markdown';
+
+describe('parseInline citations', () => {
+  it('links a plain marker only when that source exists', () => {
+    expect(parseInline('Paris is the capital [1].', 2)).toEqual([
+      { type: 'text', text: 'Paris is the capital ' },
+      { type: 'citation', indexes: [0] },
+      { type: 'text', text: '.' },
+    ]);
+    expect(parseInline('see [3] and [0]', 2)).toEqual([{ type: 'text', text: 'see [3] and [0]' }]);
+  });
+
+  it('leaves indexing alone when there are no sources', () => {
+    expect(parseInline('arr[1] + arr[2]')).toEqual([{ type: 'text', text: 'arr[1] + arr[2]' }]);
+  });
+
+  it('never turns markers inside code spans into citations', () => {
+    expect(parseInline('use `arr[1]` here', 1)).toEqual([
+      { type: 'text', text: 'use ' },
+      { type: 'code', text: 'arr[1]' },
+      { type: 'text', text: ' here' },
+    ]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('threads the source count into nested blocks and keeps fences verbatim', () => {
+    const blocks = parseMarkdown('- **bold [1]** and [2]\n\n```js\nx[1]\n```', 1);
+    expect(blocks).toEqual([
+      {
+        type: 'list',
+        ordered: false,
+        start: 1,
+        items: [[
+          { type: 'strong', children: [{ type: 'text', text: 'bold ' }, { type: 'citation', indexes: [0] }] },
+          { type: 'text', text: ' and [2]' },
+        ]],
+      },
+      { type: 'code', lang: 'js', code: 'x[1]', open: false },
+    ]);
+  });
+});
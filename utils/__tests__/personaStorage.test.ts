@@ -0,0 +1,42 @@
+import { DEFAULT_SETTINGS } from '@/constants/settings';
+import { Persona } from '@/types/persona';
+import { swapPersonaSettings } from '@/utils/personaStorage';
+
+const CREATIVE: Persona = {
+  id: 'creative',
+  name: 'Creative',
+  systemPrompt: 'Be playful.',
+  model: 'venice-uncensored',
+  sampling: { temperature: 1.4, topP: 1 },
+};
+const PRECISE: Persona = { id: 'precise', name: 'Precise', systemPrompt: 'Be exact.', sampling: { temperature: 0.1 } };
+
+describe('swapPersonaSettings', () => {
+  it('puts back what a persona changed once it is cleared', () => {
+    const picked = swapPersonaSettings(DEFAULT_SETTINGS, null, CREATIVE);
+    expect(picked.updates).toEqual({ model: 'venice-uncensored', temperature: 1.4, topP: 1 });
+
+    const during = { ...DEFAULT_SETTINGS, ...picked.updates };
+    const cleared = swapPersonaSettings(during, picked.override, null);
+    expect(cleared.override).toBeNull();
+    expect({ ...during, ...cleared.updates }).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('keeps the original values when switching straight to another persona', () => {
+    const first = swapPersonaSettings(DEFAULT_SETTINGS, null, CREATIVE);
+    const afterFirst = { ...DEFAULT_SETTINGS, ...first.updates };
+    const second = swapPersonaSettings(afterFirst, first.override, PRECISE);
+    const afterSecond = { ...afterFirst, ...second.updates };
+    expect(afterSecond).toEqual({ ...DEFAULT_SETTINGS, temperature: 0.1 });
+
+    const cleared = swapPersonaSettings(afterSecond, second.override, null);
+    expect({ ...afterSecond, ...cleared.updates }).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('leaves fields the user changed while the persona was active', () => {
+    const picked = swapPersonaSettings(DEFAULT_SETTINGS, null, CREATIVE);
+    const edited = { ...DEFAULT_SETTINGS, ...picked.updates, temperature: 0.9 };
+    const cleared = swapPersonaSettings(edited, picked.override, null);
+    expect(cleared.updates).toEqual({ model: DEFAULT_SETTINGS.model, topP: DEFAULT_SETTINGS.topP });
+  });
+});
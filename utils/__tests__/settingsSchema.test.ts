@@ -0,0 +1,73 @@
+import { DEFAULT_SETTINGS } from '@/constants/settings';
+import { SETTINGS_VERSION, parseStoredSettings, toSettingsEnvelope } from '@/utils/settingsSchema';
+
+describe('parseStoredSettings', () => {
+  it('reads the current envelope as is', () => {
+    const stored = { ...DEFAULT_SETTINGS, temperature: 1.1, webSearch: 'on' as const };
+    expect(parseStoredSettings(toSettingsEnvelope(stored), DEFAULT_SETTINGS)).toEqual({
+      settings: stored,
+      issues: [],
+      upgraded: false,
+      newer: false,
+    });
+  });
+
+  it('migrates a bare object from before the envelope and flags it for a rewrite', () => {
+    const result = parseStoredSettings({ model: 'qwen-2.5-vl', maxTokens: 2048 }, DEFAULT_SETTINGS);
+    expect(result.upgraded).toBe(true);
+    expect(result.issues).toEqual([]);
+    expect(result.settings).toEqual({ ...DEFAULT_SETTINGS, model: 'qwen-2.5-vl', maxTokens: 2048 });
+  });
+
+  it('resets only the invalid fields and reports each one', () => {
+    const result = parseStoredSettings(
+      {
+        version: SETTINGS_VERSION,
+        settings: { temperature: 7, topK: 12.5, webSearch: 'always', stripThinking: 'yes', topP: 0.5 },
+      },
+      DEFAULT_SETTINGS
+    );
+    expect(result.settings).toEqual({ ...DEFAULT_SETTINGS, topP: 0.5 });
+    expect(result.issues.map(i => i.field)).toEqual(['temperature', 'topK', 'webSearch', 'stripThinking']);
+  });
+
+  it('drops unknown fields with an issue', () => {
+    const result = parseStoredSettings(
+      { version: SETTINGS_VERSION, settings: { temperature: 0.2, fontScale: 1 } },
+      DEFAULT_SETTINGS
+    );
+    expect(result.settings).toEqual({ ...DEFAULT_SETTINGS, temperature: 0.2 });
+    expect(result.settings).not.toHaveProperty('fontScale');
+    expect(result.issues).toEqual([{ field: 'fontScale', problem: 'unknown field' }]);
+  });
+
+  it("keeps a newer build's file without reporting its extra fields", () => {
+    const result = parseStoredSettings(
+      { version: SETTINGS_VERSION + 1, settings: { temperature: 0.3, voice: 'alto' } },
+      DEFAULT_SETTINGS
+    );
+    expect(result).toEqual({
+      settings: { ...DEFAULT_SETTINGS, temperature: 0.3 },
+      issues: [],
+      upgraded: false,
+      newer: true,
+    });
+  });
+
+  it('treats a version it cannot read like a newer one instead of resetting', () => {
+    for (const version of [0.5, -1, Number.NaN]) {
+      const result = parseStoredSettings({ version, settings: { temperature: 0.3 } }, DEFAULT_SETTINGS);
+      expect(result.newer).toBe(true);
+      expect(result.upgraded).toBe(false);
+      expect(result.settings).toEqual({ ...DEFAULT_SETTINGS, temperature: 0.3 });
+    }
+  });
+
+  it('falls back to the defaults for anything that is not a settings object', () => {
+    for (const raw of [null, 'settings', 42, [DEFAULT_SETTINGS]]) {
+      const result = parseStoredSettings(raw, DEFAULT_SETTINGS);
+      expect(result.settings).toEqual(DEFAULT_SETTINGS);
+      expect(result.issues).toEqual([{ field: '(file)', problem: 'not a settings object' }]);
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import { createSseParser, SseEvent } from '@/utils/sseParser';
+import {
+  COMPLETE_STREAM,
+  CRLF_SPLIT_STREAM,
+  ERROR_EVENT_STREAM,
+  MULTILINE_DATA_STREAM,
+  TRUNCATED_STREAM,
+} from './fixtures/chatStreams';
+
+const parseAll = (chunks: string[]): SseEvent[] => {
+  const parser = createSseParser();
+  return [...chunks.flatMap(c => parser.push(c)), ...parser.flush()];
+};
+
+const contentOf = (event: SseEvent) => JSON.parse(event.data).choices[0].delta.content;
+
+describe('createSseParser', () => {
+  it('skips comments and dispatches one event per blank line', () => {
+    const events = parseAll(COMPLETE_STREAM);
+    expect(events.map(e => e.event)).toEqual(['message', 'message', 'message', 'message', 'message']);
+    expect(events.slice(0, 3).map(contentOf)).toEqual(['Bon', 'jour', '!']);
+    expect(events[4].data).toBe('[DONE]');
+  });
+
+  it('handles CRLF endings split across reads', () => {
+    const events = parseAll(CRLF_SPLIT_STREAM);
+    expect(events.map(e => e.data.startsWith('{') ? contentOf(e) : e.data)).toEqual(['Bon', 'jour', '[DONE]']);
+  });
+
+  it('treats a lone CR as a line ending', () => {
+    expect(parseAll(['data: one\r\rdata: two\r\r'])).toEqual([
+      { event: 'message', data: 'one' },
+      { event: 'message', data: 'two' },
+    ]);
+  });
+
+  it('joins consecutive data lines with a newline', () => {
+    const [event] = parseAll(MULTILINE_DATA_STREAM);
+    expect(event.data).toBe('{"choices":[{"index":0,\n"delta":{"content":"multi"}}]}');
+    expect(contentOf(event)).toBe('multi');
+  });
+
+  it('keeps event types and ids, and resets the type after each event', () => {
+    expect(parseAll(['event: error\nid: 7\ndata: upstream timed out\n\ndata: next\n\n'])).toEqual([
+      { event: 'error', id: '7', data: 'upstream timed out' },
+      { event: 'message', id: '7', data: 'next' },
+    ]);
+    expect(parseAll(ERROR_EVENT_STREAM)[1]).toEqual({ event: 'error', data: 'upstream timed out' });
+  });
+
+  it('strips only one leading space from a value', () => {
+    expect(parseAll(['data:  indented\ndata:tight\n\n'])).toEqual([{ event: 'message', data: ' indented\ntight' }]);
+  });
+
+  it('ignores events without data and unknown fields', () => {
+    expect(parseAll(['event: ping\n\nretry: 3000\nfoo: bar\n\n'])).toEqual([]);
+  });
+
+  it('flushes a final event that lost its blank line', () => {
+    const events = parseAll([...TRUNCATED_STREAM, 'data: {"partial":']);
+    expect(events).toHaveLength(3);
+    expect(events[2].data).toBe('{"partial":');
+  });
+});
@@ -0,0 +1,119 @@
+import { VeniceChatDelta } from '@/types/venice';
+import { VeniceApiError, VeniceStreamError, createVeniceClient } from '@/utils/veniceClient';
+import {
+  COMPLETE_STREAM,
+  CRLF_SPLIT_STREAM,
+  ERROR_EVENT_STREAM,
+  INLINE_ERROR_STREAM,
+  MALFORMED_CHUNK_STREAM,
+  MULTILINE_DATA_STREAM,
+  TRUNCATED_STREAM,
+} from './fixtures/chatStreams';
+
+// Answers every request with the given reads as a text/event-stream body.
+const streamingFetch = (chunks: string[], { dropAfter }: { dropAfter?: number } = {}) => {
+  const encoder = new TextEncoder();
+  const cancel = jest.fn(() => Promise.resolve());
+  const fetch = jest.fn(async () => {
+    let index = 0;
+    return {
+      ok: true,
+      status: 200,
+      headers: { get: (name: string) => (name.toLowerCase() === 'content-type' ? 'text/event-stream' : null) },
+      body: {
+        getReader: () => ({
+          read: async () => {
+            if (dropAfter !== undefined && index >= dropAfter) throw new TypeError('Network request failed');
+            if (index >= chunks.length) return { done: true, value: undefined };
+            return { done: false, value: encoder.encode(chunks[index++]) };
+          },
+          cancel,
+        }),
+      },
+    } as unknown as Response;
+  });
+  return { fetch, cancel };
+};
+
+const collect = async (chunks: string[], options?: { dropAfter?: number }) => {
+  const { fetch } = streamingFetch(chunks, options);
+  const client = createVeniceClient({ fetch, getHeaders: async () => ({}) });
+  const deltas: VeniceChatDelta[] = [];
+  try {
+    for await (const delta of client.streamChat({ model: 'venice-uncensored', messages: [] })) deltas.push(delta);
+    return { deltas, error: null };
+  } catch (error) {
+    return { deltas, error };
+  }
+};
+
+const textOf = (deltas: VeniceChatDelta[]) =>
+  deltas.map(d => (d.type === 'content' ? d.text : '')).join('');
+
+describe('streamChat', () => {
+  it('yields content and usage, and stops at [DONE]', async () => {
+    const { deltas, error } = await collect(COMPLETE_STREAM);
+    expect(error).toBeNull();
+    expect(textOf(deltas)).toBe('Bonjour!');
+    expect(deltas[deltas.length - 1]).toEqual({
+      type: 'usage',
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    });
+  });
+
+  it('reads CRLF streams split mid-line', async () => {
+    const { deltas, error } = await collect(CRLF_SPLIT_STREAM);
+    expect(error).toBeNull();
+    expect(textOf(deltas)).toBe('Bonjour');
+  });
+
+  it('parses a payload spread over several data lines', async () => {
+    const { deltas, error } = await collect(MULTILINE_DATA_STREAM);
+    expect(error).toBeNull();
+    expect(textOf(deltas)).toBe('multi');
+  });
+
+  it('reports a malformed chunk and keeps going', async () => {
+    const { deltas, error } = await collect(MALFORMED_CHUNK_STREAM);
+    expect(error).toBeNull();
+    expect(textOf(deltas)).toBe('ab');
+    expect(deltas.filter(d => d.type === 'skipped')).toEqual([
+      { type: 'skipped', data: '{"choices":[{"delta":{"content":' },
+    ]);
+  });
+
+  it('throws the error Venice reports inside the stream', async () => {
+    const { deltas, error } = await collect(INLINE_ERROR_STREAM);
+    expect(textOf(deltas)).toBe('Par');
+    expect(error).toBeInstanceOf(VeniceApiError);
+    expect((error as VeniceApiError).message).toBe('Model is overloaded');
+    expect((error as VeniceApiError).code).toBe('MODEL_OVERLOADED');
+  });
+
+  it('throws on a named error event', async () => {
+    const { error } = await collect(ERROR_EVENT_STREAM);
+    expect(error).toBeInstanceOf(VeniceApiError);
+    expect((error as VeniceApiError).message).toBe('upstream timed out');
+  });
+
+  it('reports a stream that ends without [DONE] as lost', async () => {
+    const { deltas, error } = await collect(TRUNCATED_STREAM);
+    expect(textOf(deltas)).toBe('Bonjour');
+    expect(error).toBeInstanceOf(VeniceStreamError);
+  });
+
+  it('reports a read that fails mid-stream as lost', async () => {
+    const { deltas, error } = await collect(TRUNCATED_STREAM, { dropAfter: 1 });
+    expect(textOf(deltas)).toBe('Bon');
+    expect(error).toBeInstanceOf(VeniceStreamError);
+  });
+
+  it('releases the connection when the consumer stops early', async () => {
+    const { fetch, cancel } = streamingFetch(COMPLETE_STREAM);
+    const client = createVeniceClient({ fetch, getHeaders: async () => ({}) });
+    for await (const delta of client.streamChat({ model: 'venice-uncensored', messages: [] })) {
+      if (delta.type === 'content') break;
+    }
+    expect(cancel).toHaveBeenCalled();
+  });
+});
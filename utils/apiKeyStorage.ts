@@ -0,0 +1,59 @@
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+
+const STORAGE_KEY = 'vgpt-api-key';
+export const API_KEY_HEADER = 'x-venice-key';
+
+// Cached after the first read so every request doesn't hit secure storage.
+let cachedKey: string | null = null;
+
+export async function loadApiKey(): Promise<string> {
+  if (cachedKey !== null) return cachedKey;
+
+  try {
+    if (Platform.OS === 'web') {
+      cachedKey = typeof localStorage === 'undefined' ? '' : localStorage.getItem(STORAGE_KEY) || '';
+      return cachedKey;
+    }
+
+    cachedKey = (await SecureStore.getItemAsync(STORAGE_KEY)) || '';
+    return cachedKey;
+  } catch (error) {
+    console.warn('Failed to load API key', error);
+    return '';
+  }
+}
+
+export async function persistApiKey(key: string): Promise<void> {
+  const trimmed = key.trim();
+  cachedKey = trimmed;
+
+  try {
+    if (Platform.OS === 'web') {
+      if (typeof localStorage === 'undefined') {
+        return;
+      }
+
+      if (trimmed) localStorage.setItem(STORAGE_KEY, trimmed);
+      else localStorage.removeItem(STORAGE_KEY);
+      return;
+    }
+
+    if (trimmed) await SecureStore.setItemAsync(STORAGE_KEY, trimmed);
+    else await SecureStore.deleteItemAsync(STORAGE_KEY);
+  } catch (error) {
+    console.warn('Failed to persist API key', error);
+  }
+}
+
+// Headers for any request to the /api proxy; the server falls back to its shared key when none is set.
+export async function veniceHeaders(json = true): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  const key = await loadApiKey();
+  if (key) headers[API_KEY_HEADER] = key;
+  return headers;
+}
+
+export const maskApiKey = (key: string): string =>
+  key.length > 4 ? `•••• ${key.slice(-4)}` : '••••';
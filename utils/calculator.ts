@@ -0,0 +1,133 @@
+// Arithmetic for the calculator tool. A small recursive-descent parser, so the
+// model's expression is never handed to eval().
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  exp: Math.exp,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const TOKEN_PATTERN = /\s*(\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z_][a-z0-9_]*|\*\*|[-+*/%^(),])/giy;
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < expression.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) {
+      if (!expression.slice(start).trim()) break;
+      throw new Error(`Unexpected character "${expression.slice(start).trim()[0]}"`);
+    }
+    tokens.push(match[1]);
+  }
+  return tokens;
+}
+
+/**
+ * Evaluates +, -, *, /, %, ^ (or **), parentheses, the constants pi and e,
+ * and the functions in FUNCTIONS. Throws with a readable message on bad input.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const take = (expected?: string) => {
+    const token = tokens[pos];
+    if (expected !== undefined && token !== expected) {
+      throw new Error(token === undefined ? `Expected "${expected}"` : `Expected "${expected}" but found "${token}"`);
+    }
+    pos += 1;
+    return token;
+  };
+
+  const primary = (): number => {
+    const token = take();
+    if (token === undefined) throw new Error('Expression ended early');
+    if (token === '(') {
+      const value = sum();
+      take(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+    const name = token.toLowerCase();
+    if (name in FUNCTIONS) {
+      take('(');
+      const args = [sum()];
+      while (peek() === ',') {
+        take(',');
+        args.push(sum());
+      }
+      take(')');
+      return FUNCTIONS[name](...args);
+    }
+    if (name in CONSTANTS) return CONSTANTS[name];
+    throw new Error(`Unknown name "${token}"`);
+  };
+
+  const unary = (): number => {
+    if (peek() === '-') {
+      take();
+      return -unary();
+    }
+    if (peek() === '+') {
+      take();
+      return unary();
+    }
+    return power();
+  };
+
+  // Right-associative, and binds tighter than a leading minus on its left: -2^2 = -4.
+  const power = (): number => {
+    const base = primary();
+    if (peek() === '^' || peek() === '**') {
+      take();
+      return base ** unary();
+    }
+    return base;
+  };
+
+  const product = (): number => {
+    let value = unary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = take();
+      const right = unary();
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const sum = (): number => {
+    let value = product();
+    while (peek() === '+' || peek() === '-') {
+      const op = take();
+      const right = product();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  if (!tokens.length) throw new Error('Empty expression');
+  const result = sum();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  return result;
+}
@@ -0,0 +1,130 @@
+import { AppSettings } from '@/types/settings';
+import { Message, MessageCitation } from '@/types/chat';
+import { VeniceChatMessage, VeniceModel, VeniceSamplingParams, VeniceSearchCitation } from '@/types/venice';
+import { clampToConstraint, findConstraint, getModelMaxTokens } from '@/utils/modelConstraints';
+
+type SamplingField = 'temperature' | 'topP' | 'minP' | 'topK' | 'repetitionPenalty';
+
+interface SamplingMapping {
+  field: SamplingField;
+  param: Exclude<keyof VeniceSamplingParams, 'max_completion_tokens'>;
+  constraintKeys: string[];
+  integer?: boolean;
+}
+
+// AppSettings field -> Venice request parameter, with the constraint names models advertise it under.
+const SAMPLING_MAPPINGS: SamplingMapping[] = [
+  { field: 'temperature', param: 'temperature', constraintKeys: ['temperature'] },
+  { field: 'topP', param: 'top_p', constraintKeys: ['top_p', 'topP'] },
+  { field: 'minP', param: 'min_p', constraintKeys: ['min_p', 'minP'] },
+  { field: 'topK', param: 'top_k', constraintKeys: ['top_k', 'topK'], integer: true },
+  { field: 'repetitionPenalty', param: 'repetition_penalty', constraintKeys: ['repetition_penalty', 'repetitionPenalty'] },
+];
+
+export const getMaxCompletionTokens = (settings: AppSettings, model?: VeniceModel | null): number | undefined => {
+  const modelMax = getModelMaxTokens(model);
+  // Reasoning models spend part of the budget thinking, so give them the full model allowance.
+  if (model?.model_spec?.capabilities?.supportsReasoning) {
+    return modelMax ?? settings.maxTokens;
+  }
+  return modelMax ? Math.min(settings.maxTokens, modelMax) : settings.maxTokens;
+};
+
+/**
+ * Maps every sampling field in AppSettings to its Venice chat parameter.
+ * Once the model is known, parameters its constraints don't advertise are
+ * omitted and the rest are clamped to the advertised min/max.
+ */
+export function buildSamplingParams(settings: AppSettings, model?: VeniceModel | null): VeniceSamplingParams {
+  const params: VeniceSamplingParams = {};
+
+  for (const { field, param, constraintKeys, integer } of SAMPLING_MAPPINGS) {
+    const value = settings[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+
+    if (!model) {
+      params[param] = value;
+      continue;
+    }
+
+    const constraint = findConstraint(model, constraintKeys);
+    if (constraint == null) continue;
+
+    const clamped = clampToConstraint(value, constraint);
+    params[param] = integer ? Math.round(clamped) : clamped;
+  }
+
+  const maxCompletionTokens = getMaxCompletionTokens(settings, model);
+  if (maxCompletionTokens) params.max_completion_tokens = maxCompletionTokens;
+
+  return params;
+}
+
+// A persona's system prompt goes first on every request; the stored thread never contains it.
+export const withSystemPrompt = (messages: VeniceChatMessage[], systemPrompt?: string): VeniceChatMessage[] =>
+  systemPrompt?.trim() ? [{ role: 'system', content: systemPrompt.trim() }, ...messages] : messages;
+
+const CONTINUE_PROMPT =
+  'Continue your previous reply exactly where it stopped. Do not repeat anything already written or add a preamble.';
+
+/**
+ * The history to send when resuming a stopped reply: the partial answer as an
+ * assistant turn, then a request to carry on. Neither is kept in the thread;
+ * the new text is appended to the stopped message.
+ */
+export const withContinuation = (history: Message[], partial: Message): Message[] => [
+  ...history,
+  { role: 'assistant', id: `${partial.id}-partial`, content: partial.content },
+  { role: 'user', id: `${partial.id}-continue`, content: CONTINUE_PROMPT },
+];
+
+// Keeps every search result Venice returns, in order, so `[n]` markers still line up.
+export const toMessageCitations = (citations: VeniceSearchCitation[]): MessageCitation[] =>
+  citations.map(c => ({
+    title: c?.title?.trim() || c?.url || 'Untitled source',
+    url: typeof c?.url === 'string' ? c.url : '',
+    ...(c?.content ? { snippet: c.content } : {}),
+    ...(c?.date ? { date: c.date } : {}),
+  }));
+
+export const modelSupportsVision = (model?: VeniceModel | null): boolean =>
+  model?.model_spec?.capabilities?.supportsVision === true;
+
+// Images are only sent to models that can see them; other models get the text alone.
+export const toVeniceMessage = (message: Message, includeImages: boolean): VeniceChatMessage => {
+  if (!includeImages || !message.attachments?.length) {
+    return { role: message.role, content: message.content };
+  }
+  return {
+    role: message.role,
+    content: [
+      ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+      ...message.attachments.map(a => ({ type: 'image_url' as const, image_url: { url: a.uri } })),
+    ],
+  };
+};
+
+// Splits <think> style blocks some models inline in their content out into reasoning.
+export const extractThinkingBlocks = (text: string): { reasoning: string; content: string } => {
+  if (!text) return { reasoning: '', content: '' };
+
+  const patterns: RegExp[] = [
+    /<think>([\s\S]*?)<\/think>/gi,
+    /<thinking>([\s\S]*?)<\/thinking>/gi,
+    /```(?:thinking|think)\s*\n([\s\S]*?)```/gi,
+  ];
+
+  const reasoningParts: string[] = [];
+  let content = text;
+
+  for (const pattern of patterns) {
+    content = content.replace(pattern, (_m, inner: string) => {
+      const cleaned = String(inner ?? '').trim();
+      if (cleaned) reasoningParts.push(cleaned);
+      return '';
+    });
+  }
+
+  content = content.replace(/\n{3,}/g, '\n\n').trim();
+  return { reasoning: reasoningParts.join('\n\n').trim(), content };
+};
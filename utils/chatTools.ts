@@ -0,0 +1,221 @@
+import { Conversation } from '@/types/chat';
+import { VeniceToolCall, VeniceToolCallFragment, VeniceToolDefinition } from '@/types/venice';
+import { evaluateExpression } from '@/utils/calculator';
+import { searchConversations } from '@/utils/conversationStorage';
+
+// What a tool can reach on the device while it runs.
+export interface ToolContext {
+  conversations: Conversation[];
+  signal?: AbortSignal;
+}
+
+export interface ChatTool {
+  definition: VeniceToolDefinition;
+  // Shown on the inline call card, e.g. "Calculator".
+  label: string;
+  // Takes the model's decoded arguments as they came.
+  run: (args: unknown, context: ToolContext) => string | Promise<string>;
+}
+
+interface ToolSpec<Args> extends Omit<ChatTool, 'run'> {
+  // Checks the model's arguments against the schema, throwing a message the model can act on.
+  parse: (args: unknown) => Args;
+  run: (args: Args, context: ToolContext) => string | Promise<string>;
+}
+
+// Puts the parser in front of the executor, so every tool takes the same unchecked input.
+const defineTool = <Args>({ parse, run, ...tool }: ToolSpec<Args>): ChatTool => ({
+  ...tool,
+  run: (args, context) => run(parse(args), context),
+});
+
+const argsObject = (args: unknown): Record<string, unknown> => {
+  if (!args || typeof args !== 'object' || Array.isArray(args)) throw new Error('arguments must be a JSON object');
+  return args as Record<string, unknown>;
+};
+
+const stringArg = (args: Record<string, unknown>, name: string): string => {
+  if (typeof args[name] !== 'string') throw new Error(`"${name}" must be a string`);
+  return args[name];
+};
+
+const optionalStringArg = (args: Record<string, unknown>, name: string): string | undefined =>
+  args[name] === undefined || args[name] === null ? undefined : stringArg(args, name);
+
+const optionalNumberArg = (args: Record<string, unknown>, name: string): number | undefined => {
+  const value = args[name];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`"${name}" must be a number`);
+  return value;
+};
+
+const TRANSCRIPT_LIMIT = 8000;
+
+const calculator = defineTool({
+  label: 'Calculator',
+  definition: {
+    type: 'function',
+    function: {
+      name: 'calculator',
+      description:
+        'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and ' +
+        'sqrt, cbrt, abs, sin, cos, tan, asin, acos, atan, ln, log, log2, exp, floor, ceil, round, min, max, pow.',
+      parameters: {
+        type: 'object',
+        properties: { expression: { type: 'string', description: 'e.g. "(3.5 + 2) * sqrt(16)"' } },
+        required: ['expression'],
+      },
+    },
+  },
+  parse: args => ({ expression: stringArg(argsObject(args), 'expression') }),
+  run: ({ expression }) => {
+    const value = evaluateExpression(expression);
+    if (!Number.isFinite(value)) throw new Error('The result is not a finite number');
+    return String(value);
+  },
+});
+
+const currentTime = defineTool({
+  label: 'Current time',
+  definition: {
+    type: 'function',
+    function: {
+      name: 'current_time',
+      description: "Get the current date and time, in the user's timezone unless an IANA timezone is given.",
+      parameters: {
+        type: 'object',
+        properties: { timezone: { type: 'string', description: 'IANA name such as "Europe/Paris"' } },
+      },
+    },
+  },
+  parse: args => ({ timezone: optionalStringArg(argsObject(args), 'timezone') }),
+  run: ({ timezone }) => {
+    const now = new Date();
+    const timeZone = timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const local = now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' });
+    return JSON.stringify({ iso: now.toISOString(), timezone: timeZone, local });
+  },
+});
+
+const searchLibrary = defineTool({
+  label: 'Search conversations',
+  definition: {
+    type: 'function',
+    function: {
+      name: 'search_conversations',
+      description: "Search the user's saved conversations by keyword. Returns ids, titles and matching excerpts.",
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          limit: { type: 'integer', minimum: 1, maximum: 20 },
+        },
+        required: ['query'],
+      },
+    },
+  },
+  parse: args => {
+    const fields = argsObject(args);
+    return { query: stringArg(fields, 'query'), limit: optionalNumberArg(fields, 'limit') };
+  },
+  run: ({ query, limit = 5 }, { conversations }) => {
+    const q = query.trim().toLowerCase();
+    const matches = searchConversations(conversations, q).slice(0, Math.min(Math.max(limit, 1), 20));
+    return JSON.stringify(matches.map(c => ({
+      id: c.id,
+      title: c.title,
+      updatedAt: new Date(c.updatedAt).toISOString(),
+      excerpts: c.messages
+        .filter(m => q && m.content.toLowerCase().includes(q))
+        .slice(0, 3)
+        .map(m => {
+          const at = m.content.toLowerCase().indexOf(q);
+          return m.content.slice(Math.max(0, at - 80), at + q.length + 80);
+        }),
+    })));
+  },
+});
+
+const getConversation = defineTool({
+  label: 'Open conversation',
+  definition: {
+    type: 'function',
+    function: {
+      name: 'get_conversation',
+      description: 'Read a saved conversation by the id search_conversations returned.',
+      parameters: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+    },
+  },
+  parse: args => ({ id: stringArg(argsObject(args), 'id') }),
+  run: ({ id }, { conversations }) => {
+    const conversation = conversations.find(c => c.id === id);
+    if (!conversation) throw new Error(`No conversation with id ${id}`);
+    const transcript = conversation.messages
+      .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+      .join('\n\n');
+    return transcript.length > TRANSCRIPT_LIMIT
+      ? `${conversation.title}\n\n${transcript.slice(-TRANSCRIPT_LIMIT)}\n\n(earlier messages omitted)`
+      : `${conversation.title}\n\n${transcript}`;
+  },
+});
+
+export const CHAT_TOOLS: ChatTool[] = [calculator, currentTime, searchLibrary, getConversation];
+
+export const toolDefinitions = (): VeniceToolDefinition[] => CHAT_TOOLS.map(t => t.definition);
+
+const findTool = (name: string) => CHAT_TOOLS.find(t => t.definition.function.name === name);
+
+export const toolLabel = (name: string): string => findTool(name)?.label ?? name;
+
+/**
+ * Runs one call from the model. Failures come back as text rather than
+ * throwing, since the model is expected to read them and recover.
+ */
+export async function runToolCall(call: VeniceToolCall, context: ToolContext): Promise<{ ok: boolean; result: string }> {
+  const tool = findTool(call.function.name);
+  if (!tool) return { ok: false, result: `Error: unknown tool "${call.function.name}"` };
+  let args: unknown;
+  try {
+    args = call.function.arguments.trim() ? JSON.parse(call.function.arguments) : {};
+  } catch {
+    return { ok: false, result: 'Error: arguments were not valid JSON' };
+  }
+  try {
+    return { ok: true, result: await tool.run(args ?? {}, context) };
+  } catch (e: any) {
+    return { ok: false, result: `Error: ${e?.message ?? String(e)}` };
+  }
+}
+
+/**
+ * Joins streamed tool call fragments back into whole calls: the first fragment
+ * for an index carries the id and name, later ones append to the arguments.
+ */
+export function createToolCallCollector() {
+  const calls = new Map<number, VeniceToolCall>();
+  return {
+    add(fragment: VeniceToolCallFragment) {
+      const call = calls.get(fragment.index) ?? {
+        // Some servers omit ids; calls in later rounds still need distinct ones.
+        id: `call_${Date.now().toString(36)}_${fragment.index}`,
+        type: 'function' as const,
+        function: { name: '', arguments: '' },
+      };
+      if (fragment.id) call.id = fragment.id;
+      if (fragment.function?.name && !call.function.name) call.function.name = fragment.function.name;
+      if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+      calls.set(fragment.index, call);
+    },
+    // Finished calls in index order.
+    calls(): VeniceToolCall[] {
+      return [...calls.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, call]) => call)
+        .filter(call => call.function.name);
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { Comparison } from '@/types/compare';
+
+const STORAGE_KEY = 'vgpt-comparisons';
+const COMPARISONS_FILE_PATH = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
+  : null;
+
+// Older comparisons fall off past this.
+const MAX_COMPARISONS = 100;
+
+export const MAX_COMPARE_MODELS = 4;
+
+const isComparison = (value: any): value is Comparison =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof value.id === 'string' &&
+  typeof value.prompt === 'string' &&
+  typeof value.createdAt === 'number' &&
+  Array.isArray(value.results);
+
+const parseComparisons = (raw: string | null): Comparison[] => {
+  if (!raw) return [];
+  const parsed = JSON.parse(raw);
+  return Array.isArray(parsed) ? parsed.filter(isComparison) : [];
+};
+
+export async function loadComparisons(): Promise<Comparison[]> {
+  try {
+    if (Platform.OS === 'web') {
+      if (typeof localStorage === 'undefined') {
+        return [];
+      }
+
+      return parseComparisons(localStorage.getItem(STORAGE_KEY));
+    }
+
+    if (!COMPARISONS_FILE_PATH) {
+      return [];
+    }
+
+    const fileInfo = await FileSystem.getInfoAsync(COMPARISONS_FILE_PATH);
+    if (!fileInfo.exists) {
+      return [];
+    }
+
+    return parseComparisons(await FileSystem.readAsStringAsync(COMPARISONS_FILE_PATH));
+  } catch (error) {
+    console.warn('Failed to load comparisons', error);
+    return [];
+  }
+}
+
+export async function persistComparisons(comparisons: Comparison[]): Promise<void> {
+  try {
+    const serialized = JSON.stringify(comparisons.slice(0, MAX_COMPARISONS));
+
+    if (Platform.OS === 'web') {
+      if (typeof localStorage === 'undefined') {
+        return;
+      }
+
+      localStorage.setItem(STORAGE_KEY, serialized);
+      return;
+    }
+
+    if (!COMPARISONS_FILE_PATH) {
+      return;
+    }
+
+    await FileSystem.writeAsStringAsync(COMPARISONS_FILE_PATH, serialized);
+  } catch (error) {
+    console.warn('Failed to persist comparisons', error);
+  }
+}
+
+export const createComparisonId = (): string =>
+  `compare-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Newest first, replacing any earlier copy of the same comparison.
+export const upsertComparison = (comparisons: Comparison[], comparison: Comparison): Comparison[] =>
+  [comparison, ...comparisons.filter(c => c.id !== comparison.id)];
@@ -0,0 +1,234 @@
+import { AppSettings } from '@/types/settings';
+import { ContextSummary, Message } from '@/types/chat';
+import { VeniceChatMessage, VeniceModel, VeniceUsage } from '@/types/venice';
+import { getMaxCompletionTokens, toVeniceMessage, withSystemPrompt } from '@/utils/chatRequest';
+import { resolveUsdPrice } from '@/utils/pricing';
+import { VeniceClient } from '@/utils/veniceClient';
+
+// Rough but tokenizer-free: ~4 characters per token for English text and code.
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators the chat template wraps around every message.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Flat allowance per attached image; providers bill roughly this for a mid-sized image.
+const IMAGE_TOKENS = 800;
+// Never reserve more than this share of the window for the reply, even for reasoning models.
+const MAX_RESERVED_SHARE = 0.5;
+// After summarizing, keep the recent turns within this share of the input budget.
+const SUMMARY_KEEP_SHARE = 0.5;
+const SUMMARY_MAX_TOKENS = 600;
+
+const SUMMARY_INSTRUCTIONS =
+  'Summarize the conversation below so it can replace the original turns as context. ' +
+  'Keep names, facts, decisions, code identifiers and open questions. Write plain prose, at most 300 words.';
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const estimateMessageTokens = (message: VeniceChatMessage): number => {
+  if (typeof message.content === 'string') return MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content);
+  return message.content.reduce(
+    (total, part) => total + (part.type === 'text' ? estimateTokens(part.text) : IMAGE_TOKENS),
+    MESSAGE_OVERHEAD_TOKENS
+  );
+};
+
+export const estimatePromptTokens = (messages: VeniceChatMessage[]): number =>
+  messages.reduce((total, m) => total + estimateMessageTokens(m), 0);
+
+export interface BilledTokens {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * What one chat call is billed for: the usage Venice reported, or, when none
+ * arrived (a stopped or dropped stream), an estimate from the prompt sent and
+ * the text received. Every chat cost in the app goes through this.
+ */
+export const billedTokens = (usage: VeniceUsage | undefined, sent: VeniceChatMessage[], received: string): BilledTokens => ({
+  inputTokens: usage?.prompt_tokens ?? estimatePromptTokens(sent),
+  outputTokens: usage?.completion_tokens ?? estimateTokens(received),
+});
+
+export interface ContextBudget {
+  // The model's full window; undefined when the model doesn't advertise one.
+  limit?: number;
+  // Held back for the reply.
+  reserved: number;
+}
+
+export function getContextBudget(settings: AppSettings, model?: VeniceModel | null): ContextBudget {
+  const limit = model?.model_spec?.availableContextTokens || undefined;
+  const maxOutput = getMaxCompletionTokens(settings, model) ?? settings.maxTokens;
+  const reserved = limit ? Math.min(maxOutput, Math.floor(limit * MAX_RESERVED_SHARE)) : maxOutput;
+  return { limit, reserved };
+}
+
+export interface ContextUsage extends ContextBudget {
+  // Estimated prompt tokens plus the reply reservation.
+  used: number;
+  // used / limit, or undefined without a limit.
+  ratio?: number;
+}
+
+export const measureContext = (messages: VeniceChatMessage[], budget: ContextBudget): ContextUsage => {
+  const used = estimatePromptTokens(messages) + budget.reserved;
+  return { ...budget, used, ratio: budget.limit ? used / budget.limit : undefined };
+};
+
+const summaryMessage = (summary: ContextSummary): VeniceChatMessage => ({
+  role: 'system',
+  content: `Summary of the earlier conversation:\n${summary.text}`,
+});
+
+export interface ContextInput {
+  history: Message[];
+  systemPrompt?: string;
+  includeImages: boolean;
+  summary?: ContextSummary | null;
+}
+
+// The summary, if it still applies to `turns` (an edit or branch above its cut-off voids it).
+const summaryFor = (turns: Message[], summary?: ContextSummary | null) => {
+  const index = summary ? turns.findIndex(m => m.id === summary.throughId) : -1;
+  return summary && index >= 0 ? { summary, tail: turns.slice(index + 1) } : { summary: null, tail: turns };
+};
+
+const assemble = (tail: Message[], summary: ContextSummary | null, { systemPrompt, includeImages }: ContextInput) =>
+  withSystemPrompt(
+    [...(summary ? [summaryMessage(summary)] : []), ...tail.map(m => toVeniceMessage(m, includeImages))],
+    systemPrompt
+  );
+
+/**
+ * The request messages for `history` as they stand: failed replies are left
+ * out, and turns already covered by `summary` are replaced by it.
+ */
+export function buildContextMessages(input: ContextInput): VeniceChatMessage[] {
+  const { summary, tail } = summaryFor(input.history.filter(m => !m.error), input.summary);
+  return assemble(tail, summary, input);
+}
+
+// Index of the first turn to keep so that `turns[index..]` fits in `available` tokens and starts on a user turn.
+function firstKeptTurn(turns: Message[], includeImages: boolean, available: number): number {
+  let total = 0;
+  let index = turns.length;
+  while (index > 0) {
+    const next = total + estimateMessageTokens(toVeniceMessage(turns[index - 1], includeImages));
+    // Always keep the newest turn, even when it alone is over budget.
+    if (next > available && index < turns.length) break;
+    total = next;
+    index--;
+  }
+  while (index < turns.length - 1 && turns[index].role !== 'user') index++;
+  return index;
+}
+
+export type Summarize = (turns: Message[], previousSummary?: string) => Promise<string>;
+
+export interface FittedContext {
+  messages: VeniceChatMessage[];
+  summary?: ContextSummary | null;
+  // Turns left out of this request by trimming (not counting summarized ones).
+  dropped: number;
+}
+
+// Caps the prompt at `promptTokens`, for when the model rejected a request the estimate said would fit.
+export const capContextBudget = (budget: ContextBudget, promptTokens?: number | null): ContextBudget =>
+  promptTokens ? { ...budget, limit: Math.min(budget.limit ?? Infinity, budget.reserved + promptTokens) } : budget;
+
+/**
+ * Makes `history` fit the model's window. With `summarize`, older turns are
+ * folded into a running summary; otherwise, or if summarizing fails, the
+ * oldest turns are dropped. The newest turn is always sent.
+ */
+export async function fitToContext(
+  input: ContextInput,
+  budget: ContextBudget,
+  summarize?: Summarize
+): Promise<FittedContext> {
+  const turns = input.history.filter(m => !m.error);
+  let { summary, tail } = summaryFor(turns, input.summary);
+  const messages = assemble(tail, summary, input);
+  const { limit } = budget;
+  if (!limit) return { messages, summary, dropped: 0 };
+
+  const fits = (candidate: VeniceChatMessage[]) => estimatePromptTokens(candidate) + budget.reserved <= limit;
+  if (fits(messages)) return { messages, summary, dropped: 0 };
+
+  const fixed = input.systemPrompt?.trim() ? estimateMessageTokens({ role: 'system', content: input.systemPrompt }) : 0;
+  const available = limit - budget.reserved - fixed;
+
+  if (summarize) {
+    const keepFrom = firstKeptTurn(tail, input.includeImages, Math.floor(available * SUMMARY_KEEP_SHARE));
+    if (keepFrom > 0) {
+      try {
+        const text = await summarize(tail.slice(0, keepFrom), summary?.text);
+        summary = { throughId: tail[keepFrom - 1].id, text };
+        tail = tail.slice(keepFrom);
+        const summarized = assemble(tail, summary, input);
+        if (fits(summarized)) return { messages: summarized, summary, dropped: 0 };
+      } catch (error) {
+        console.warn('Failed to summarize history, trimming instead', error);
+      }
+    }
+  }
+
+  const summaryTokens = summary ? estimateMessageTokens(summaryMessage(summary)) : 0;
+  const keepFrom = firstKeptTurn(tail, input.includeImages, available - summaryTokens);
+  return { messages: assemble(tail.slice(keepFrom), summary, input), summary, dropped: keepFrom };
+}
+
+// Turns a span of the thread into a plain transcript for the summarizer.
+export const toTranscript = (turns: Message[], previousSummary?: string): string =>
+  [
+    ...(previousSummary ? [`Earlier summary:\n${previousSummary}`] : []),
+    ...turns.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`),
+  ].join('\n\n');
+
+export const summaryRequestMessages = (turns: Message[], previousSummary?: string): VeniceChatMessage[] => [
+  { role: 'system', content: SUMMARY_INSTRUCTIONS },
+  { role: 'user', content: toTranscript(turns, previousSummary) },
+];
+
+// The cheapest text model by input price, for housekeeping calls like summaries.
+export function pickSummaryModel(models: VeniceModel[], fallback?: VeniceModel): VeniceModel | undefined {
+  const priced = models
+    .filter(m => (m.type ?? 'text') === 'text' && !m.model_spec?.offline)
+    .map(m => ({ model: m, price: resolveUsdPrice(m.model_spec?.pricing?.input) }))
+    .filter((entry): entry is { model: VeniceModel; price: number } => entry.price !== undefined)
+    .sort((a, b) => a.price - b.price);
+  return priced[0]?.model ?? fallback;
+}
+
+export interface SummarizerOptions {
+  signal?: AbortSignal;
+  // Asked before each call with its worst case; a reason to hold back fails the summary, so the caller trims instead.
+  checkSpend?: (estimate: BilledTokens) => Promise<string | null>;
+  onUsage?: (tokens: BilledTokens) => void;
+}
+
+// Summaries via a non-streamed call; an empty answer counts as a failure so the caller can trim instead.
+export const createSummarizer = (
+  client: VeniceClient,
+  model: string,
+  { signal, checkSpend, onUsage }: SummarizerOptions = {}
+): Summarize =>
+  async (turns, previousSummary) => {
+    const messages = summaryRequestMessages(turns, previousSummary);
+    const held = await checkSpend?.({ inputTokens: estimatePromptTokens(messages), outputTokens: SUMMARY_MAX_TOKENS });
+    if (held) throw new Error(held);
+
+    const data = await client.chat(
+      {
+        model,
+        messages,
+        max_completion_tokens: SUMMARY_MAX_TOKENS,
+        venice_parameters: { include_venice_system_prompt: false },
+      },
+      { signal }
+    );
+    const text = data?.choices?.[0]?.message?.content?.trim();
+    onUsage?.(billedTokens(data?.usage, messages, text ?? ''));
+    if (!text) throw new Error('The summary came back empty.');
+    return text;
+  };
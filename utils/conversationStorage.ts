@@ -0,0 +1,149 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { AppSettings } from '@/types/settings';
+import { Conversation, ConversationSettings, Message } from '@/types/chat';
+
+const STORAGE_KEY = 'vgpt-conversations';
+const CONVERSATIONS_FILE_PATH = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
+  : null;
+
+const TITLE_MAX_LENGTH = 48;
+
+const isConversation = (value: any): value is Conversation =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof value.id === 'string' &&
+  Array.isArray(value.messages);
+
+const parseConversations = (raw: string | null): Conversation[] => {
+  if (!raw) return [];
+  const parsed = JSON.parse(raw);
+  return Array.isArray(parsed) ? parsed.filter(isConversation) : [];
+};
+
+export async function loadConversations(): Promise<Conversation[]> {
+  try {
+    if (Platform.OS === 'web') {
+      if (typeof localStorage === 'undefined') {
+        return [];
+      }
+
+      return parseConversations(localStorage.getItem(STORAGE_KEY));
+    }
+
+    if (!CONVERSATIONS_FILE_PATH) {
+      return [];
+    }
+
+    const fileInfo = await FileSystem.getInfoAsync(CONVERSATIONS_FILE_PATH);
+    if (!fileInfo.exists) {
+      return [];
+    }
+
+    return parseConversations(await FileSystem.readAsStringAsync(CONVERSATIONS_FILE_PATH));
+  } catch (error) {
+    console.warn('Failed to load persisted conversations', error);
+    return [];
+  }
+}
+
+// Resolves to the error when the write failed, e.g. because storage is full, or null once saved.
+export async function persistConversations(conversations: Conversation[]): Promise<Error | null> {
+  try {
+    // Never write a half-streamed reply; it is saved once the stream settles.
+    const serialized = JSON.stringify(
+      conversations.map(c => ({ ...c, messages: c.messages.filter(m => !m.isStreaming) }))
+    );
+
+    if (Platform.OS === 'web') {
+      if (typeof localStorage === 'undefined') {
+        return null;
+      }
+
+      localStorage.setItem(STORAGE_KEY, serialized);
+      return null;
+    }
+
+    if (!CONVERSATIONS_FILE_PATH) {
+      return null;
+    }
+
+    await FileSystem.writeAsStringAsync(CONVERSATIONS_FILE_PATH, serialized);
+    return null;
+  } catch (error) {
+    console.warn('Failed to persist conversations', error);
+    return error instanceof Error ? error : new Error(String(error));
+  }
+}
+
+// A browser storage quota, or a native write that ran out of disk space.
+export const isStorageFullError = (error: Error): boolean =>
+  error.name === 'QuotaExceededError' ||
+  error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+  /ENOSPC|no space left|out of space|disk is full|quota/i.test(error.message);
+
+export const createConversationId = (): string =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const deriveConversationTitle = (messages: Message[]): string => {
+  const firstPrompt = messages.find(m => m.role === 'user')?.content.replace(/\s+/g, ' ').trim();
+  if (!firstPrompt) return 'New conversation';
+  return firstPrompt.length > TITLE_MAX_LENGTH
+    ? `${firstPrompt.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…`
+    : firstPrompt;
+};
+
+export const toConversationSettings = (settings: AppSettings): ConversationSettings => {
+  const {
+    imageModel, imageSteps, imageWidth, imageHeight, imageGuidanceScale,
+    imageVariants, imageNegativePrompt, imageStylePreset, imageSeed, imageSeedLocked, imageConcurrency,
+    spendingCapUsd, spendingCapPeriod, spendingCapMode,
+    ...chatSettings
+  } = settings;
+  return chatSettings;
+};
+
+// Inserts or refreshes a conversation, keeping the list sorted by most recent activity.
+export const upsertConversation = (
+  conversations: Conversation[],
+  id: string,
+  messages: Message[],
+  settings: AppSettings,
+  // Optional per-thread state; a missing key clears it from the stored conversation.
+  extras: Pick<Conversation, 'persona' | 'contextSummary' | 'responseSchema'> = {}
+): Conversation[] => {
+  const now = Date.now();
+  const existing = conversations.find(c => c.id === id);
+  const base: Conversation = existing ?? {
+    id,
+    title: deriveConversationTitle(messages),
+    createdAt: now,
+    updatedAt: now,
+    model: settings.model,
+    settings: toConversationSettings(settings),
+    messages,
+  };
+  const { persona, contextSummary, responseSchema, ...rest } = base;
+  const next: Conversation = {
+    ...rest,
+    messages,
+    model: settings.model,
+    settings: toConversationSettings(settings),
+    updatedAt: now,
+    ...(extras.persona ? { persona: extras.persona } : {}),
+    ...(extras.contextSummary ? { contextSummary: extras.contextSummary } : {}),
+    ...(extras.responseSchema ? { responseSchema: extras.responseSchema } : {}),
+  };
+
+  return [next, ...conversations.filter(c => c.id !== id)];
+};
+
+export const searchConversations = (conversations: Conversation[], query: string): Conversation[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return conversations;
+  return conversations.filter(c =>
+    c.title.toLowerCase().includes(q) ||
+    c.messages.some(m => m.content.toLowerCase().includes(q))
+  );
+};
@@ -0,0 +1,345 @@
+import { AppSettings } from '@/types/settings';
+import {
+  ContextSummary,
+  Conversation,
+  Message,
+  MessageAttachment,
+  MessageCitation,
+  MessageError,
+  MessageMetrics,
+  MessageToolCall,
+  ResponseSchema,
+  StructuredCheck,
+} from '@/types/chat';
+import { Persona } from '@/types/persona';
+import { VeniceChatMessage } from '@/types/venice';
+import { toVeniceMessage, withSystemPrompt } from '@/utils/chatRequest';
+import { createConversationId, deriveConversationTitle, toConversationSettings } from '@/utils/conversationStorage';
+import { PERSONA_SAMPLING_KEYS } from '@/utils/personaStorage';
+import { parseStoredSettings } from '@/utils/settingsSchema';
+import { isChatErrorFix, isChatErrorKind } from '@/utils/veniceErrors';
+
+export type ConversationExportFormat = 'markdown' | 'json' | 'openai';
+
+export const EXPORT_FORMATS: { format: ConversationExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { format: 'openai', label: 'OpenAI', extension: 'json', mimeType: 'application/json' },
+];
+
+// Marks a lossless export so it can be told apart from an OpenAI `messages` file.
+const CONVERSATION_FILE_KIND = 'vgpt-conversation';
+const CONVERSATION_FILE_VERSION = 1;
+
+const formatMetrics = (metrics: MessageMetrics): string =>
+  [
+    metrics.tokensPerSecond != null && `${metrics.tokensPerSecond.toFixed(1)} tok/s`,
+    metrics.totalTokens != null && `${metrics.totalTokens} tokens`,
+    metrics.firstTokenTime != null && `first token ${metrics.firstTokenTime.toFixed(2)}s`,
+    metrics.responseTime != null && `${metrics.responseTime.toFixed(2)}s`,
+    metrics.cost != null && `$${metrics.cost.toFixed(4)}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+// Quotes every line so reasoning reads as an aside.
+const quote = (text: string): string => text.trim().split('\n').map(line => `> ${line}`).join('\n');
+
+const messageToMarkdown = (message: Message, getModelName: (id: string) => string, model: string): string => {
+  const parts = [message.role === 'user' ? '### You' : `### ${getModelName(model)}`];
+
+  if (message.reasoning?.trim()) parts.push(`> **Reasoning**\n>\n${quote(message.reasoning)}`);
+  if (message.content.trim()) parts.push(message.content.trim());
+  if (message.attachments?.length) {
+    parts.push(`_${message.attachments.length} image${message.attachments.length === 1 ? '' : 's'} attached_`);
+  }
+  for (const call of message.toolCalls ?? []) {
+    parts.push(`_Tool: ${call.name}(${call.arguments})_`);
+  }
+  if (message.citations?.length) {
+    parts.push(['**Sources**', ...message.citations.map((c, i) => `${i + 1}. [${c.title}](${c.url})`)].join('\n'));
+  }
+  if (message.stopped) parts.push('_Stopped before the reply finished_');
+  if (message.skippedChunks) {
+    parts.push(`_${message.skippedChunks} stream chunk${message.skippedChunks === 1 ? '' : 's'} could not be parsed_`);
+  }
+  if (message.error) parts.push(`_Error: ${message.error.title}. ${message.error.message}_`);
+  if (message.metrics) {
+    const metrics = formatMetrics(message.metrics);
+    if (metrics) parts.push(`<sub>${metrics}</sub>`);
+  }
+  return parts.join('\n\n');
+};
+
+export const conversationToMarkdown = (
+  conversation: Conversation,
+  getModelName: (id: string) => string = id => id
+): string => {
+  const header = [
+    `# ${conversation.title}`,
+    '',
+    `- Model: ${getModelName(conversation.model)}`,
+    `- Started: ${new Date(conversation.createdAt).toLocaleString()}`,
+    ...(conversation.persona ? [`- Persona: ${conversation.persona.name}`] : []),
+  ];
+  const system = conversation.persona ? [`### System\n\n${quote(conversation.persona.systemPrompt)}`] : [];
+  const turns = conversation.messages.map(m => messageToMarkdown(m, getModelName, conversation.model));
+  return [header.join('\n'), ...system, ...turns].join('\n\n---\n\n') + '\n';
+};
+
+export const conversationToJson = (conversation: Conversation): string =>
+  JSON.stringify(
+    {
+      kind: CONVERSATION_FILE_KIND,
+      version: CONVERSATION_FILE_VERSION,
+      conversation: { ...conversation, messages: conversation.messages.filter(m => !m.isStreaming) },
+    },
+    null,
+    2
+  );
+
+// The thread as a chat completions `messages` array; failed replies are left out.
+export const conversationToOpenAI = (conversation: Conversation): string => {
+  const messages = conversation.messages
+    .filter(m => !m.isStreaming && !(m.error && !m.content))
+    .map(m => toVeniceMessage(m, true));
+  return JSON.stringify(withSystemPrompt(messages, conversation.persona?.systemPrompt), null, 2);
+};
+
+export const exportConversation = (
+  conversation: Conversation,
+  format: ConversationExportFormat,
+  getModelName?: (id: string) => string
+): string => {
+  switch (format) {
+    case 'markdown':
+      return conversationToMarkdown(conversation, getModelName);
+    case 'json':
+      return conversationToJson(conversation);
+    case 'openai':
+      return conversationToOpenAI(conversation);
+  }
+};
+
+// ── reading a lossless export: keep only known fields of the right type ─────────
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const str = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+const num = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// Drops keys whose value is undefined, so optional fields stay absent rather than present-but-empty.
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+const toMetrics = (value: unknown): MessageMetrics | undefined => {
+  if (!isObject(value)) return undefined;
+  return compact({
+    tokensPerSecond: num(value.tokensPerSecond),
+    totalTokens: num(value.totalTokens),
+    inputTokens: num(value.inputTokens),
+    outputTokens: num(value.outputTokens),
+    cost: num(value.cost),
+    responseTime: num(value.responseTime),
+    firstTokenTime: num(value.firstTokenTime),
+  });
+};
+
+const toError = (value: unknown): MessageError | undefined => {
+  if (!isObject(value) || !isChatErrorKind(value.kind)) return undefined;
+  const title = str(value.title);
+  const message = str(value.message);
+  if (title === undefined || message === undefined) return undefined;
+  return compact({
+    kind: value.kind,
+    title,
+    message,
+    status: num(value.status),
+    retryAfter: num(value.retryAfter),
+    fix: isChatErrorFix(value.fix) ? value.fix : undefined,
+  });
+};
+
+const toAttachment = (value: unknown): MessageAttachment | null => {
+  if (!isObject(value) || !str(value.id) || !str(value.uri)?.startsWith('data:image/') || !str(value.mimeType)) {
+    return null;
+  }
+  return compact({ id: value.id, uri: value.uri, mimeType: value.mimeType, width: num(value.width), height: num(value.height) });
+};
+
+const toCitation = (value: unknown): MessageCitation | null => {
+  if (!isObject(value) || str(value.title) === undefined || str(value.url) === undefined) return null;
+  return compact({ title: value.title, url: value.url, snippet: str(value.snippet), date: str(value.date) });
+};
+
+const TOOL_STATUSES: MessageToolCall['status'][] = ['running', 'done', 'error'];
+
+const toToolCall = (value: unknown): MessageToolCall | null => {
+  if (!isObject(value)) return null;
+  const { id, name, arguments: args } = value;
+  if (!str(id) || !str(name) || str(args) === undefined || num(value.offset) === undefined) return null;
+  // A call still running when the file was written never finished.
+  const status = TOOL_STATUSES.includes(value.status) && value.status !== 'running' ? value.status : 'error';
+  return compact({ id, name, arguments: args, status, result: str(value.result), offset: value.offset });
+};
+
+const toStructured = (value: unknown): StructuredCheck | undefined => {
+  if (!isObject(value) || !str(value.schemaName) || typeof value.valid !== 'boolean' || !Array.isArray(value.errors)) {
+    return undefined;
+  }
+  return { schemaName: value.schemaName, valid: value.valid, errors: value.errors.filter(e => typeof e === 'string') };
+};
+
+const listOf = <T>(value: unknown, read: (item: unknown, index: number) => T | null): T[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const items = value.map(read).filter((item): item is T => item !== null);
+  return items.length ? items : undefined;
+};
+
+// `path` locates the message in the file, e.g. "3-1-0" for the first turn of the second version at turn 3,
+// so fallback ids stay unique across versions.
+const toMessage = (value: unknown, path: string): Message | null => {
+  if (!isObject(value) || (value.role !== 'user' && value.role !== 'assistant') || typeof value.content !== 'string') {
+    return null;
+  }
+  const versions = Array.isArray(value.versions)
+    ? value.versions.map((thread, v) => listOf(thread, (item, i) => toMessage(item, `${path}-${v}-${i}`)) ?? [])
+    : undefined;
+  return compact({
+    role: value.role,
+    content: value.content,
+    id: str(value.id) || `${Date.now()}-${path}`,
+    reasoning: str(value.reasoning),
+    metrics: toMetrics(value.metrics),
+    error: toError(value.error),
+    attachments: listOf(value.attachments, toAttachment),
+    citations: listOf(value.citations, toCitation),
+    toolCalls: listOf(value.toolCalls, toToolCall),
+    structured: toStructured(value.structured),
+    versions,
+    versionIndex: versions ? num(value.versionIndex) : undefined,
+    stopped: value.stopped === true ? true : undefined,
+    skippedChunks: num(value.skippedChunks),
+  });
+};
+
+const toPersona = (value: unknown): Persona | undefined => {
+  if (!isObject(value) || !str(value.id) || str(value.name) === undefined || str(value.systemPrompt) === undefined) {
+    return undefined;
+  }
+  const sampling = isObject(value.sampling)
+    ? compact(Object.fromEntries(PERSONA_SAMPLING_KEYS.map(key => [key, num(value.sampling[key])])))
+    : undefined;
+  return compact({
+    id: value.id,
+    name: value.name,
+    systemPrompt: value.systemPrompt,
+    model: str(value.model),
+    sampling: sampling && Object.keys(sampling).length ? sampling : undefined,
+  });
+};
+
+const toContextSummary = (value: unknown): ContextSummary | undefined =>
+  isObject(value) && str(value.throughId) && str(value.text) !== undefined
+    ? { throughId: value.throughId, text: value.text }
+    : undefined;
+
+const toResponseSchema = (value: unknown): ResponseSchema | undefined =>
+  isObject(value) && str(value.id) && str(value.name) !== undefined && isObject(value.schema)
+    ? { id: value.id, name: value.name, schema: value.schema }
+    : undefined;
+
+const fromLosslessExport = (value: any, settings: AppSettings): Omit<Conversation, 'id' | 'createdAt' | 'updatedAt'> => {
+  const stored = value.conversation;
+  if (!isObject(stored) || !Array.isArray(stored.messages)) {
+    throw new Error('The conversation in this file is incomplete.');
+  }
+  const messages = stored.messages
+    .map((m, i) => toMessage(m, String(i)))
+    .filter((m): m is Message => m !== null);
+  if (!messages.length) throw new Error('The file has no user or assistant messages.');
+
+  // The file's settings go through the same checks as stored settings: unknown
+  // fields are dropped, and invalid or missing ones take the current value.
+  const checked = parseStoredSettings(isObject(stored.settings) ? stored.settings : {}, settings).settings;
+  const title = str(stored.title)?.trim();
+  return compact({
+    title: title || deriveConversationTitle(messages),
+    model: str(stored.model) || checked.model,
+    settings: toConversationSettings(checked),
+    persona: toPersona(stored.persona),
+    contextSummary: toContextSummary(stored.contextSummary),
+    responseSchema: toResponseSchema(stored.responseSchema),
+    messages,
+  });
+};
+
+const fromOpenAIMessages = (
+  raw: VeniceChatMessage[],
+  settings: AppSettings
+): Omit<Conversation, 'id' | 'createdAt' | 'updatedAt'> => {
+  const systemPrompt = raw
+    .filter(m => m?.role === 'system' && typeof m.content === 'string')
+    .map(m => m.content as string)
+    .join('\n\n');
+
+  const messages: Message[] = [];
+  raw.forEach((m, i) => {
+    if (m?.role !== 'user' && m?.role !== 'assistant') return;
+    const parts = typeof m.content === 'string' ? [{ type: 'text' as const, text: m.content }] : m.content ?? [];
+    const content = parts.map(p => (p?.type === 'text' ? p.text : '')).filter(Boolean).join('\n\n');
+    // Only inline images survive; remote URLs may not load later.
+    const attachments: MessageAttachment[] = parts
+      .filter(p => p?.type === 'image_url' && p.image_url?.url?.startsWith('data:'))
+      .map((p, j) => {
+        const url = (p as { image_url: { url: string } }).image_url.url;
+        return { id: `${i}-${j}`, uri: url, mimeType: url.slice(5, url.indexOf(';')) || 'image/png' };
+      });
+    if (!content && !attachments.length) return;
+    messages.push({
+      id: `${Date.now()}-${i}`,
+      role: m.role,
+      content,
+      ...(attachments.length ? { attachments } : {}),
+    });
+  });
+
+  if (!messages.length) throw new Error('The file has no user or assistant messages.');
+
+  return {
+    title: deriveConversationTitle(messages),
+    model: settings.model,
+    settings: toConversationSettings(settings),
+    ...(systemPrompt ? { persona: { id: `imported-${Date.now()}`, name: 'Imported system prompt', systemPrompt } } : {}),
+    messages,
+  };
+};
+
+/**
+ * Reads a file written by `conversationToJson`, or an OpenAI `messages` array
+ * (bare or inside a request body), as a new conversation. Throws when the
+ * text is neither.
+ */
+export function parseConversationFile(text: string, settings: AppSettings): Conversation {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  let imported: Omit<Conversation, 'id' | 'createdAt' | 'updatedAt'>;
+  if (parsed?.kind === CONVERSATION_FILE_KIND) {
+    imported = fromLosslessExport(parsed, settings);
+  } else if (Array.isArray(parsed)) {
+    imported = fromOpenAIMessages(parsed, settings);
+  } else if (Array.isArray(parsed?.messages)) {
+    imported = fromOpenAIMessages(parsed.messages, settings);
+  } else {
+    throw new Error('This is not a conversation export or an OpenAI messages file.');
+  }
+
+  const now = Date.now();
+  return { ...imported, id: createConversationId(), createdAt: now, updatedAt: now };
+}
@@ -0,0 +1,49 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Hands a text file to the user: a download on web, the share sheet on
+ * native, where the file is written to the cache first so it is shared as a
+ * file rather than as pasted text.
+ */
+export async function exportTextFile(fileName: string, text: string, mimeType = 'application/json'): Promise<void> {
+  if (Platform.OS === 'web') {
+    if (typeof document === 'undefined') return;
+    const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const dir = FileSystem.cacheDirectory || FileSystem.documentDirectory;
+  if (!dir) throw new Error('File system unavailable.');
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device.');
+  const fileUri = `${dir}${fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, text);
+  await Sharing.shareAsync(fileUri, { mimeType, dialogTitle: fileName });
+}
+
+/**
+ * Lets the user pick a file and reads it as text. Resolves to null when the
+ * picker is dismissed.
+ */
+export async function importTextFile(type: string | string[] = 'application/json'): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type, copyToCacheDirectory: true, base64: false });
+  if (result.canceled || !result.assets.length) return null;
+
+  const asset = result.assets[0];
+  // The web picker hands back the File itself; native gives a copy in the cache.
+  if (asset.file) return asset.file.text();
+  return FileSystem.readAsStringAsync(asset.uri);
+}
+
+// A filesystem-safe name such as "precise-coding.json".
+export const toFileName = (name: string, extension: string): string =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export'}.${extension}`;
@@ -0,0 +1,142 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { GeneratedImage } from '@/types/image';
+
+const STORAGE_KEY = 'vgpt-gallery';
+const GALLERY_INDEX_PATH = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
+  : null;
+const GALLERY_DIR = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}${STORAGE_KEY}/`
+  : null;
+
+// Kept apart from the PWA's `vgpt` database so neither app has to manage the other's schema.
+const DB_NAME = 'vgpt-expo';
+const DB_STORE = 'images';
+
+const sortNewestFirst = (images: GeneratedImage[]) => [...images].sort((a, b) => b.createdAt - a.createdAt);
+
+// ── web: IndexedDB ──────────────────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDB(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      try {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => {
+          req.result.createObjectStore(DB_STORE, { keyPath: 'id' });
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+async function runStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> {
+  const db = await openDB();
+  if (!db) return undefined;
+  return new Promise((resolve, reject) => {
+    const req = action(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// ── native: files in the document directory ───────────────────────────────────
+
+async function readNativeIndex(): Promise<GeneratedImage[]> {
+  if (!GALLERY_INDEX_PATH) return [];
+  const info = await FileSystem.getInfoAsync(GALLERY_INDEX_PATH);
+  if (!info.exists) return [];
+  const parsed = JSON.parse(await FileSystem.readAsStringAsync(GALLERY_INDEX_PATH));
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+let indexWrite: Promise<void> = Promise.resolve();
+
+// Read-modify-write of the index, chained so overlapping saves can't drop each other's entries.
+function updateNativeIndex(update: (images: GeneratedImage[]) => GeneratedImage[]): Promise<void> {
+  const next = indexWrite.then(async () => {
+    if (!GALLERY_INDEX_PATH) return;
+    await FileSystem.writeAsStringAsync(GALLERY_INDEX_PATH, JSON.stringify(update(await readNativeIndex())));
+  });
+  indexWrite = next.catch(() => {});
+  return next;
+}
+
+// ── public API ─────────────────────────────────────────────────────────────────
+
+export async function loadGallery(): Promise<GeneratedImage[]> {
+  try {
+    if (Platform.OS === 'web') {
+      return sortNewestFirst((await runStore('readonly', store => store.getAll())) ?? []);
+    }
+
+    return sortNewestFirst(await readNativeIndex());
+  } catch (error) {
+    console.warn('Failed to load image gallery', error);
+    return [];
+  }
+}
+
+/**
+ * Persists a freshly generated image. On native the data: URL is written to a
+ * file and the returned entry points at it instead, keeping the index small.
+ */
+export async function saveGalleryImage(image: GeneratedImage): Promise<GeneratedImage> {
+  try {
+    if (Platform.OS === 'web') {
+      await runStore('readwrite', store => store.put(image));
+      return image;
+    }
+
+    const match = image.imageData.match(/^data:image\/([a-zA-Z0-9.+-]+);base64,(.*)$/);
+    if (!GALLERY_DIR || !match) return image;
+
+    await FileSystem.makeDirectoryAsync(GALLERY_DIR, { intermediates: true }).catch(() => {});
+    const fileUri = `${GALLERY_DIR}${image.id}.${match[1]}`;
+    await FileSystem.writeAsStringAsync(fileUri, match[2], { encoding: FileSystem.EncodingType.Base64 });
+
+    const stored = { ...image, imageData: fileUri };
+    await updateNativeIndex(images => [stored, ...images.filter(i => i.id !== image.id)]);
+    return stored;
+  } catch (error) {
+    console.warn('Failed to persist generated image', error);
+    return image;
+  }
+}
+
+export async function deleteGalleryImage(image: GeneratedImage): Promise<void> {
+  try {
+    if (Platform.OS === 'web') {
+      await runStore('readwrite', store => store.delete(image.id));
+      return;
+    }
+
+    if (image.imageData.startsWith('file:')) {
+      await FileSystem.deleteAsync(image.imageData, { idempotent: true });
+    }
+    await updateNativeIndex(images => images.filter(i => i.id !== image.id));
+  } catch (error) {
+    console.warn('Failed to delete generated image', error);
+  }
+}
+
+/**
+ * The image as a data: URL, for sending to the edit endpoints. Native gallery
+ * entries live in files, so those are read back in.
+ */
+export async function loadImageDataUrl(uri: string): Promise<string> {
+  if (uri.startsWith('data:') || Platform.OS === 'web') return uri;
+  const extension = uri.split('.').pop()?.toLowerCase() ?? 'png';
+  const mimeType = extension === 'jpg' ? 'image/jpeg' : `image/${extension}`;
+  const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  return `data:${mimeType};base64,${base64}`;
+}
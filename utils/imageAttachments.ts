@@ -0,0 +1,50 @@
+import * as ImagePicker from 'expo-image-picker';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { MessageAttachment } from '@/types/chat';
+
+export type AttachmentSource = 'camera' | 'library';
+
+const PICKER_OPTIONS: ImagePicker.ImagePickerOptions = {
+  mediaTypes: ['images'],
+  quality: 1,
+};
+
+// Attachments are stored inline with the conversation, so photos are shrunk to this long edge first.
+const MAX_ATTACHMENT_EDGE = 1536;
+const ATTACHMENT_QUALITY = 0.7;
+
+/**
+ * Lets the user take or choose a photo and returns it as a data: URL attachment.
+ * Resolves to null when the picker is cancelled; throws if permission is denied.
+ */
+export async function pickImageAttachment(source: AttachmentSource): Promise<MessageAttachment | null> {
+  const permission = source === 'camera'
+    ? await ImagePicker.requestCameraPermissionsAsync()
+    : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) {
+    throw new Error(source === 'camera' ? 'Camera access was denied.' : 'Photo library access was denied.');
+  }
+
+  const result = source === 'camera'
+    ? await ImagePicker.launchCameraAsync(PICKER_OPTIONS)
+    : await ImagePicker.launchImageLibraryAsync(PICKER_OPTIONS);
+  if (result.canceled || !result.assets.length) return null;
+
+  const asset = result.assets[0];
+  const scale = Math.min(1, MAX_ATTACHMENT_EDGE / Math.max(asset.width || 1, asset.height || 1));
+  const context = ImageManipulator.manipulate(asset.uri);
+  if (scale < 1) context.resize({ width: Math.round(asset.width * scale) });
+  const image = await (await context.renderAsync()).saveAsync({
+    format: SaveFormat.JPEG,
+    compress: ATTACHMENT_QUALITY,
+    base64: true,
+  });
+
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    uri: `data:image/jpeg;base64,${image.base64}`,
+    mimeType: 'image/jpeg',
+    width: image.width,
+    height: image.height,
+  };
+}
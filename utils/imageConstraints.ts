@@ -0,0 +1,105 @@
+import { VeniceConstraint, VeniceModel } from '@/types/venice';
+import { AppSettings } from '@/types/settings';
+import { getConstraintNumber, getConstraintRange } from '@/utils/modelConstraints';
+
+export interface ConstraintRange {
+  min: number;
+  max: number;
+  default: number;
+}
+
+// What a model accepts for generation, with every bound filled in.
+export interface ImageConstraints {
+  steps: ConstraintRange;
+  width: ConstraintRange;
+  height: ConstraintRange;
+  // Absent when the model doesn't advertise a guidance scale, in which case none is sent.
+  guidance?: ConstraintRange;
+  // Width and height must both be multiples of this.
+  divisor: number;
+}
+
+export interface ImageAspectPreset {
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Stand-ins for bounds a model leaves out; they match the API's own limits.
+const FALLBACK_STEPS: ConstraintRange = { min: 1, max: 50, default: 20 };
+const FALLBACK_SIZE: ConstraintRange = { min: 256, max: 1280, default: 1024 };
+const FALLBACK_GUIDANCE: ConstraintRange = { min: 0, max: 20, default: 7.5 };
+const FALLBACK_DIVISOR = 8;
+
+const ASPECT_RATIOS: [number, number][] = [[1, 1], [4, 3], [3, 4], [16, 9], [9, 16]];
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, value));
+
+const toRange = (constraint: VeniceConstraint | undefined, fallback: ConstraintRange): ConstraintRange => {
+  const range = getConstraintRange(constraint);
+  const min = range.min ?? fallback.min;
+  const max = Math.max(min, range.max ?? fallback.max);
+  return { min, max, default: clamp(getConstraintNumber(constraint) ?? fallback.default, { min, max }) };
+};
+
+export function getImageConstraints(model: VeniceModel | null | undefined): ImageConstraints {
+  const c = model?.model_spec?.constraints || {};
+  const divisor = typeof c.widthHeightDivisor === 'number' && c.widthHeightDivisor > 0
+    ? c.widthHeightDivisor
+    : FALLBACK_DIVISOR;
+  return {
+    steps: toRange(c.steps, FALLBACK_STEPS),
+    width: toRange(c.width, FALLBACK_SIZE),
+    height: toRange(c.height, FALLBACK_SIZE),
+    guidance: c.guidance_scale != null ? toRange(c.guidance_scale, FALLBACK_GUIDANCE) : undefined,
+    divisor,
+  };
+}
+
+// Nearest multiple of the divisor that still lies inside the range.
+export function snapDimension(value: number, range: ConstraintRange, divisor: number): number {
+  const low = Math.ceil(range.min / divisor) * divisor;
+  const high = Math.max(low, Math.floor(range.max / divisor) * divisor);
+  return clamp(Math.round(value / divisor) * divisor, { min: low, max: high });
+}
+
+/**
+ * Common aspect ratios sized for the model: the long edge is the model's
+ * default size, shrunk until both sides fit, then snapped to the divisor.
+ */
+export function getAspectPresets(c: ImageConstraints): ImageAspectPreset[] {
+  const longEdge = Math.max(c.width.default, c.height.default);
+  const presets: ImageAspectPreset[] = [];
+  for (const [rw, rh] of ASPECT_RATIOS) {
+    let width = rw >= rh ? longEdge : (longEdge * rw) / rh;
+    let height = rw >= rh ? (longEdge * rh) / rw : longEdge;
+    const fit = Math.min(1, c.width.max / width, c.height.max / height);
+    width = snapDimension(width * fit, c.width, c.divisor);
+    height = snapDimension(height * fit, c.height, c.divisor);
+    if (!presets.some(p => p.width === width && p.height === height)) {
+      presets.push({ label: `${rw}:${rh}`, width, height });
+    }
+  }
+  return presets;
+}
+
+type ImageSettingsFields = Pick<AppSettings, 'imageSteps' | 'imageWidth' | 'imageHeight' | 'imageGuidanceScale'>;
+
+// The stored image settings brought inside what the model accepts.
+export function resolveImageSettings(settings: ImageSettingsFields, c: ImageConstraints) {
+  return {
+    steps: Math.round(clamp(settings.imageSteps || c.steps.default, c.steps)),
+    width: snapDimension(settings.imageWidth || c.width.default, c.width, c.divisor),
+    height: snapDimension(settings.imageHeight || c.height.default, c.height, c.divisor),
+    cfgScale: c.guidance ? clamp(settings.imageGuidanceScale || c.guidance.default, c.guidance) : undefined,
+  };
+}
+
+// Steps and guidance reset to the model's own defaults when it is picked; the size carries over.
+export function imageModelDefaults(model: VeniceModel): Partial<ImageSettingsFields> {
+  const c = getImageConstraints(model);
+  return {
+    imageSteps: c.steps.default,
+    ...(c.guidance ? { imageGuidanceScale: c.guidance.default } : {}),
+  };
+}
@@ -0,0 +1,55 @@
+import { GeneratedImage, ImageGenerationParams } from '@/types/image';
+import { VeniceImageGenerateRequest } from '@/types/venice';
+import { ImageToolJob } from '@/utils/imageTools';
+
+export const MAX_IMAGE_VARIANTS = 4;
+
+// What a Create tab queue job runs: a generation, or one of the image tools.
+export type ImageWork =
+  | { kind: 'generate'; params: ImageGenerationParams; variants: number }
+  | { kind: 'tool'; job: ImageToolJob };
+
+// The API takes seeds up to this.
+export const MAX_IMAGE_SEED = 999_999_999;
+
+export const randomSeed = (): number => Math.floor(Math.random() * MAX_IMAGE_SEED) + 1;
+
+export const clampSeed = (seed: number): number =>
+  Math.min(MAX_IMAGE_SEED, Math.max(0, Math.round(seed) || 0));
+
+/**
+ * One set of params per variant. Each variant is its own request with its own
+ * seed (base, base + 1, …), so any single image can be re-run exactly.
+ */
+export const expandVariants = (params: ImageGenerationParams, count: number): ImageGenerationParams[] => {
+  const base = params.seed ?? randomSeed();
+  return Array.from({ length: Math.min(Math.max(count, 1), MAX_IMAGE_VARIANTS) }, (_, i) => ({
+    ...params,
+    seed: (base + i) % (MAX_IMAGE_SEED + 1),
+  }));
+};
+
+export const toImageGenerateRequest = (params: ImageGenerationParams): VeniceImageGenerateRequest => ({
+  model: params.model,
+  prompt: params.prompt,
+  width: params.width,
+  height: params.height,
+  steps: params.steps,
+  format: 'webp',
+  hide_watermark: false,
+  ...(params.cfgScale != null ? { cfg_scale: params.cfgScale } : {}),
+  ...(params.negativePrompt ? { negative_prompt: params.negativePrompt } : {}),
+  ...(params.stylePreset ? { style_preset: params.stylePreset } : {}),
+  ...(params.seed != null ? { seed: params.seed } : {}),
+});
+
+// Runs of consecutive gallery images from the same batch; everything else stands alone.
+export const groupImageBatches = (images: GeneratedImage[]): GeneratedImage[][] => {
+  const groups: GeneratedImage[][] = [];
+  for (const image of images) {
+    const last = groups[groups.length - 1];
+    if (image.batchId && last?.[0].batchId === image.batchId) last.push(image);
+    else groups.push([image]);
+  }
+  return groups;
+};
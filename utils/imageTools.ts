@@ -0,0 +1,74 @@
+import { ImageOperation } from '@/types/image';
+import { VeniceImageFileResponse } from '@/types/venice';
+import { VeniceClient, VeniceRequestOptions } from '@/utils/veniceClient';
+
+export type ImageToolKind = 'edit' | 'upscale' | 'background-remove';
+
+// An input image: a gallery entry or a picked photo.
+export interface ImageToolSource {
+  id: string;
+  uri: string;
+  // Set when the image came from the gallery, so the result can link back to it.
+  galleryId?: string;
+  width?: number;
+  height?: number;
+}
+
+export type ImageToolJob =
+  | { kind: 'edit'; model: string; prompt: string; sources: ImageToolSource[] }
+  | { kind: 'upscale'; scale: number; enhance: boolean; creativity: number; prompt?: string; sources: ImageToolSource[] }
+  | { kind: 'background-remove'; sources: ImageToolSource[] };
+
+// A multi-image edit composites onto the first image; the edit models take at most three.
+export const MAX_EDIT_SOURCES = 3;
+
+export const UPSCALE_SCALES = [1, 2, 3, 4];
+
+export const imageOperationOf = (job: ImageToolJob): ImageOperation =>
+  job.kind === 'edit' && job.sources.length > 1 ? 'multi-edit' : job.kind;
+
+// The prompt line the resulting gallery card shows.
+export const describeImageJob = (job: ImageToolJob): string => {
+  switch (job.kind) {
+    case 'edit':
+      return job.prompt;
+    case 'upscale':
+      return job.scale === 1 ? 'Enhanced' : `Upscaled ${job.scale}×`;
+    case 'background-remove':
+      return 'Background removed';
+  }
+};
+
+/**
+ * Sends a job to the matching endpoint. `images` are the sources as data:
+ * URLs, in the same order as `job.sources`.
+ */
+export function runImageTool(
+  client: VeniceClient,
+  job: ImageToolJob,
+  images: string[],
+  options: VeniceRequestOptions = {}
+): Promise<VeniceImageFileResponse> {
+  switch (job.kind) {
+    case 'edit':
+      return images.length > 1
+        ? client.multiEditImage({ modelId: job.model, prompt: job.prompt, images: images.slice(0, MAX_EDIT_SOURCES) }, options)
+        : client.editImage({ model: job.model, prompt: job.prompt, image: images[0] }, options);
+    case 'upscale': {
+      // The API only allows a 1× "upscale" as a pure enhance pass.
+      const enhance = job.enhance || job.scale === 1;
+      return client.upscaleImage(
+        {
+          image: images[0],
+          scale: job.scale,
+          ...(enhance
+            ? { enhance: true, enhanceCreativity: job.creativity, ...(job.prompt ? { enhancePrompt: job.prompt } : {}) }
+            : {}),
+        },
+        options
+      );
+    }
+    case 'background-remove':
+      return client.removeBackground({ image: images[0] }, options);
+  }
+}
@@ -0,0 +1,104 @@
+export type JobStatus = 'queued' | 'running' | 'failed';
+
+export interface QueuedJob<T> {
+  id: string;
+  // Shown on the job's placeholder card.
+  label: string;
+  payload: T;
+  status: JobStatus;
+  error?: string;
+  attempts: number;
+  createdAt: number;
+}
+
+interface JobQueueOptions<T> {
+  concurrency: number;
+  // Resolves once the job's results are saved; a rejection marks the job failed.
+  run: (job: QueuedJob<T>, signal: AbortSignal) => Promise<void>;
+  // Receives a fresh array after every change, ready to put in state.
+  onChange: (jobs: QueuedJob<T>[]) => void;
+}
+
+export const MAX_JOB_CONCURRENCY = 4;
+
+const clampConcurrency = (limit: number) => Math.min(Math.max(Math.round(limit) || 1, 1), MAX_JOB_CONCURRENCY);
+
+/**
+ * Runs jobs in order, at most `concurrency` at a time. Finished jobs leave the
+ * queue; failed ones stay until they are retried or cancelled.
+ */
+export function createJobQueue<T>(options: JobQueueOptions<T>) {
+  let jobs: QueuedJob<T>[] = [];
+  let concurrency = clampConcurrency(options.concurrency);
+  const controllers = new Map<string, AbortController>();
+
+  const update = (id: string, patch: Partial<QueuedJob<T>>) => {
+    jobs = jobs.map(j => (j.id === id ? { ...j, ...patch } : j));
+  };
+  const remove = (id: string) => {
+    jobs = jobs.filter(j => j.id !== id);
+  };
+
+  const start = (job: QueuedJob<T>) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job.id, { status: 'running', error: undefined, attempts: job.attempts + 1 });
+    options.run({ ...job, attempts: job.attempts + 1 }, controller.signal)
+      .then(
+        () => remove(job.id),
+        (e: any) => {
+          // Cancelled jobs were already taken off the list.
+          if (!controller.signal.aborted) update(job.id, { status: 'failed', error: e?.message || String(e) });
+        }
+      )
+      .finally(() => {
+        controllers.delete(job.id);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    let next = jobs.find(j => j.status === 'queued');
+    while (next && controllers.size < concurrency) {
+      start(next);
+      next = jobs.find(j => j.status === 'queued');
+    }
+    options.onChange([...jobs]);
+  };
+
+  return {
+    add(label: string, payload: T): string {
+      const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      jobs = [...jobs, { id, label, payload, status: 'queued', attempts: 0, createdAt: Date.now() }];
+      pump();
+      return id;
+    },
+
+    // Aborts a running job, or drops a queued or failed one.
+    cancel(id: string) {
+      controllers.get(id)?.abort();
+      remove(id);
+      pump();
+    },
+
+    cancelAll() {
+      controllers.forEach(c => c.abort());
+      jobs = [];
+      pump();
+    },
+
+    retry(id: string) {
+      const job = jobs.find(j => j.id === id);
+      if (job?.status !== 'failed') return;
+      update(id, { status: 'queued', error: undefined });
+      pump();
+    },
+
+    setConcurrency(limit: number) {
+      concurrency = clampConcurrency(limit);
+      pump();
+    },
+  };
+}
+
+export type JobQueue<T> = ReturnType<typeof createJobQueue<T>>;
@@ -0,0 +1,173 @@
+// A small JSON Schema checker for structured replies. It covers the keywords
+// models are asked to honour in `response_format` (types, properties, required,
+// items, enums, bounds, patterns, combinators and local $refs) rather than the
+// whole specification.
+
+import { ResponseSchema, StructuredCheck } from '@/types/chat';
+
+export type JsonSchema = { [key: string]: any } | boolean;
+
+export type SchemaParseResult = { schema: Record<string, any>; error?: undefined } | { schema?: undefined; error: string };
+
+export function parseSchema(text: string): SchemaParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e: any) {
+    return { error: `Not valid JSON: ${e?.message ?? 'parse error'}` };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { error: 'A schema must be a JSON object.' };
+  }
+  return { schema: parsed as Record<string, any> };
+}
+
+// Pulls the JSON value out of a reply, tolerating a ```json fence around it.
+export function extractJson(content: string): { value: unknown; error?: undefined } | { value?: undefined; error: string } {
+  const fenced = content.match(/```(?:json)?\s*\n([\s\S]*?)```/i);
+  const text = (fenced ? fenced[1] : content).trim();
+  try {
+    return { value: JSON.parse(text) };
+  } catch (e: any) {
+    return { error: `Reply is not valid JSON: ${e?.message ?? 'parse error'}` };
+  }
+}
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const deepEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const describe = (path: string) => path || 'value';
+
+function resolveRef(root: Record<string, any>, ref: string): JsonSchema | undefined {
+  if (!ref.startsWith('#')) return undefined;
+  return ref
+    .slice(1)
+    .split('/')
+    .filter(Boolean)
+    .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<any>((node, part) => (node == null ? undefined : node[part]), root);
+}
+
+function check(value: unknown, schema: JsonSchema, root: Record<string, any>, path: string, errors: string[], depth: number) {
+  if (schema === true) return;
+  if (schema === false) {
+    errors.push(`${describe(path)} is not allowed`);
+    return;
+  }
+  if (!schema || typeof schema !== 'object' || depth > 32) return;
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(root, schema.$ref);
+    if (target === undefined) errors.push(`${describe(path)}: unresolved $ref ${schema.$ref}`);
+    else check(value, target, root, path, errors, depth + 1);
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      errors.push(`${describe(path)} should be ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => deepEqual(option, value))) {
+    errors.push(`${describe(path)} should be one of ${schema.enum.map((o: unknown) => JSON.stringify(o)).join(', ')}`);
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${describe(path)} should equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${describe(path)} should have at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${describe(path)} should have at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) errors.push(`${describe(path)} should match ${schema.pattern}`);
+      } catch {
+        // An invalid pattern in the schema isn't the reply's fault.
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) errors.push(`${describe(path)} should be ≥ ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) errors.push(`${describe(path)} should be ≤ ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      errors.push(`${describe(path)} should be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      errors.push(`${describe(path)} should be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${describe(path)} should have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${describe(path)} should have at most ${schema.maxItems} items`);
+    }
+    if (schema.items !== undefined && !Array.isArray(schema.items)) {
+      value.forEach((item, i) => check(item, schema.items, root, `${path}[${i}]`, errors, depth + 1));
+    }
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const obj = value as Record<string, unknown>;
+    const properties: Record<string, JsonSchema> = schema.properties ?? {};
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!(key in obj)) errors.push(`${path ? `${path}.` : ''}${key} is required`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (key in properties) check(child, properties[key], root, childPath, errors, depth + 1);
+      else if (schema.additionalProperties === false) errors.push(`${childPath} is not allowed`);
+      else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        check(child, schema.additionalProperties, root, childPath, errors, depth + 1);
+      }
+    }
+  }
+
+  const branchErrors = (branch: JsonSchema) => {
+    const found: string[] = [];
+    check(value, branch, root, path, found, depth + 1);
+    return found;
+  };
+  if (Array.isArray(schema.allOf)) schema.allOf.forEach((branch: JsonSchema) => check(value, branch, root, path, errors, depth + 1));
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((branch: JsonSchema) => branchErrors(branch).length === 0)) {
+    errors.push(`${describe(path)} doesn't match any allowed shape`);
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((branch: JsonSchema) => branchErrors(branch).length === 0).length;
+    if (matches !== 1) errors.push(`${describe(path)} should match exactly one allowed shape (matched ${matches})`);
+  }
+}
+
+// Every way `value` breaks `schema`; empty when it conforms.
+export function validateJson(value: unknown, schema: Record<string, any>): string[] {
+  const errors: string[] = [];
+  check(value, schema, schema, '', errors, 0);
+  return errors;
+}
+
+// Checks a finished JSON-mode reply, reporting a parse failure as its only error.
+export function checkStructuredReply(content: string, { name, schema }: ResponseSchema): StructuredCheck {
+  const extracted = extractJson(content);
+  const errors = extracted.error !== undefined ? [extracted.error] : validateJson(extracted.value, schema);
+  return { schemaName: name, valid: errors.length === 0, errors };
+}
@@ -0,0 +1,194 @@
+// Small GFM-ish markdown parser for chat, mirroring mdToHtml in public/core.js.
+// It produces a plain tree that components/MarkdownView.tsx turns into native views.
+
+export type MdInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MdInline[] }
+  | { type: 'link'; href: string; children: MdInline[] }
+  | { type: 'image'; alt: string; src: string }
+  // Zero-based positions in the message's citation list.
+  | { type: 'citation'; indexes: number[] };
+
+export type MdAlign = 'left' | 'center' | 'right' | undefined;
+
+export type MdBlock =
+  | { type: 'paragraph'; lines: MdInline[][] }
+  | { type: 'heading'; level: number; children: MdInline[] }
+  // `open` is set for a fence that hasn't been closed yet, e.g. mid-stream.
+  | { type: 'code'; lang: string; code: string; open: boolean }
+  | { type: 'hr' }
+  | { type: 'quote'; lines: MdInline[][] }
+  | { type: 'list'; ordered: boolean; start: number; items: MdInline[][] }
+  | { type: 'table'; header: MdInline[][]; aligns: MdAlign[]; rows: MdInline[][][] };
+
+// ── inline ────────────────────────────────────────────────────────────────────
+
+const INLINE_PATTERN = new RegExp(
+  [
+    /`([^`\n]+)`/.source,
+    /!\[([^\]]*)\]\(((?:data:image\/|https?:\/\/)[^)]+)\)/.source,
+    /\[([^\]]+)\]\((https?:\/\/[^)]+)\)/.source,
+    // Venice cites as [REF]0,2[/REF] (zero-based); plain [1] markers are one-based.
+    /\[REF\]\s*(\d+(?:\s*,\s*\d+)*)\s*\[\/REF\]/.source,
+    /\[(\d{1,3})\](?!\()/.source,
+    /\*\*([^*]+)\*\*/.source,
+    /__([^_]+)__/.source,
+    /~~([^~]+)~~/.source,
+    /(^|[^*\w])\*([^*\n]+)\*(?!\*)/.source,
+    /(^|[^_\w])_([^_\n]+)_(?!_)/.source,
+  ].join('|'),
+  'g'
+);
+
+/**
+ * Parses one line of inline markdown. A plain `[n]` only becomes a citation
+ * when `n` names one of the `citationCount` sources, so `arr[1]` stays text.
+ */
+export function parseInline(src: string, citationCount = 0): MdInline[] {
+  const out: MdInline[] = [];
+  const pushText = (text: string) => {
+    if (!text) return;
+    const last = out[out.length - 1];
+    if (last?.type === 'text') last.text += text;
+    else out.push({ type: 'text', text });
+  };
+
+  const pattern = new RegExp(INLINE_PATTERN);
+  let cursor = 0;
+  let m: RegExpExecArray | null;
+  while ((m = pattern.exec(src))) {
+    pushText(src.slice(cursor, m.index));
+    cursor = m.index + m[0].length;
+
+    if (m[1] != null) out.push({ type: 'code', text: m[1] });
+    else if (m[3] != null) out.push({ type: 'image', alt: m[2], src: m[3] });
+    else if (m[5] != null) out.push({ type: 'link', href: m[5], children: parseInline(m[4], citationCount) });
+    else if (m[6] != null) out.push({ type: 'citation', indexes: m[6].split(',').map(n => Number(n.trim())) });
+    else if (m[7] != null) {
+      const index = Number(m[7]) - 1;
+      if (index >= 0 && index < citationCount) out.push({ type: 'citation', indexes: [index] });
+      else pushText(m[0]);
+    } else if (m[8] != null) out.push({ type: 'strong', children: parseInline(m[8], citationCount) });
+    else if (m[9] != null) out.push({ type: 'strong', children: parseInline(m[9], citationCount) });
+    else if (m[10] != null) out.push({ type: 'del', children: parseInline(m[10], citationCount) });
+    else if (m[12] != null) {
+      pushText(m[11]);
+      out.push({ type: 'em', children: parseInline(m[12], citationCount) });
+    } else if (m[14] != null) {
+      pushText(m[13]);
+      out.push({ type: 'em', children: parseInline(m[14], citationCount) });
+    }
+  }
+  pushText(src.slice(cursor));
+  return out;
+}
+
+// ── blocks ────────────────────────────────────────────────────────────────────
+
+const FENCE = /^\s*```\s*([\w+#.-]*)\s*$/;
+const FENCE_CLOSE = /^\s*```\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{1,}:?\s*(\|\s*:?-{1,}:?\s*)*\|?\s*$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const ORDERED = /^\s*(\d+)[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?/;
+
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(c => c.trim());
+
+function tableAlign(sepCell: string): MdAlign {
+  const c = sepCell.trim();
+  if (c.startsWith(':') && c.endsWith(':')) return 'center';
+  if (c.endsWith(':')) return 'right';
+  if (c.startsWith(':')) return 'left';
+  return undefined;
+}
+
+/**
+ * Parses markdown into blocks. An unterminated code fence runs to the end of
+ * the text as an `open` code block, so a reply that is still streaming never
+ * spills half a code sample into the surrounding prose. `citationCount` is
+ * the number of sources plain `[n]` markers may point into.
+ */
+export function parseMarkdown(src: string, citationCount = 0): MdBlock[] {
+  const parseLine = (line: string) => parseInline(line, citationCount);
+  const lines = String(src).replace(/\r\n?/g, '\n').split('\n');
+  const out: MdBlock[] = [];
+  let para: string[] = [];
+  const flushPara = () => {
+    if (para.length) {
+      out.push({ type: 'paragraph', lines: para.map(parseLine) });
+      para = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (/^\s*$/.test(line)) { flushPara(); i++; continue; }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flushPara();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE_CLOSE.test(lines[i])) { code.push(lines[i]); i++; }
+      const open = i >= lines.length;
+      out.push({ type: 'code', lang: fence[1], code: code.join('\n'), open });
+      i++;
+      continue;
+    }
+
+    const h = line.match(/^(#{1,6})\s+(.*)$/);
+    if (h) { flushPara(); out.push({ type: 'heading', level: h[1].length, children: parseLine(h[2].trim()) }); i++; continue; }
+
+    if (/^\s*([-*_])\1{2,}\s*$/.test(line)) { flushPara(); out.push({ type: 'hr' }); i++; continue; }
+
+    if (/\|/.test(line) && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      flushPara();
+      const header = splitTableRow(line).map(parseLine);
+      const aligns = splitTableRow(lines[i + 1]).map(tableAlign);
+      i += 2;
+      const rows: MdInline[][][] = [];
+      while (i < lines.length && /\|/.test(lines[i]) && !/^\s*$/.test(lines[i])) {
+        rows.push(splitTableRow(lines[i]).map(parseLine));
+        i++;
+      }
+      out.push({ type: 'table', header, aligns, rows });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushPara();
+      const quoted: MdInline[][] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) { quoted.push(parseLine(lines[i].replace(QUOTE, ''))); i++; }
+      out.push({ type: 'quote', lines: quoted });
+      continue;
+    }
+
+    if (BULLET.test(line)) {
+      flushPara();
+      const items: MdInline[][] = [];
+      let m: RegExpMatchArray | null;
+      while (i < lines.length && (m = lines[i].match(BULLET))) { items.push(parseLine(m[1])); i++; }
+      out.push({ type: 'list', ordered: false, start: 1, items });
+      continue;
+    }
+
+    const ordered = line.match(ORDERED);
+    if (ordered) {
+      flushPara();
+      const items: MdInline[][] = [];
+      let m: RegExpMatchArray | null;
+      while (i < lines.length && (m = lines[i].match(ORDERED))) { items.push(parseLine(m[2])); i++; }
+      out.push({ type: 'list', ordered: true, start: Number(ordered[1]), items });
+      continue;
+    }
+
+    para.push(line);
+    i++;
+  }
+  flushPara();
+  return out;
+}
@@ -0,0 +1,45 @@
+import { Message } from '@/types/chat';
+
+export type BranchInfo = Pick<Message, 'versions' | 'versionIndex'>;
+
+const stripBranch = ({ versions, versionIndex, ...message }: Message): Message => message;
+
+// The thread from `index` onwards, as stored inside a versions list.
+const snapshotTail = (messages: Message[], index: number): Message[] => {
+  const [head, ...rest] = messages.slice(index);
+  return head ? [stripBranch(head), ...rest] : [];
+};
+
+export const versionCount = (message: Message): number => message.versions?.length ?? 1;
+
+/**
+ * Saves the live thread from `index` onwards as a version and reserves a slot
+ * for a new one. Give the result to whichever message becomes the new head.
+ */
+export function forkAt(messages: Message[], index: number): BranchInfo {
+  const head = messages[index];
+  const versions = head?.versions ? [...head.versions] : [];
+  const current = head?.versionIndex ?? 0;
+  versions[current] = snapshotTail(messages, index);
+  versions.push([]);
+  return { versions, versionIndex: versions.length - 1 };
+}
+
+// Swaps the thread from `index` onwards for another stored version.
+export function switchVersion(messages: Message[], index: number, target: number): Message[] {
+  const head = messages[index];
+  if (!head?.versions || target < 0 || target >= head.versions.length || target === head.versionIndex) {
+    return messages;
+  }
+
+  const versions = [...head.versions];
+  versions[head.versionIndex ?? 0] = snapshotTail(messages, index);
+  const [targetHead, ...targetRest] = versions[target];
+  if (!targetHead) return messages;
+
+  return [...messages.slice(0, index), { ...targetHead, versions, versionIndex: target }, ...targetRest];
+}
+
+// Carries a head's versions over when that message is replaced in place (e.g. on retry).
+export const branchInfoOf = (message?: Message): BranchInfo =>
+  message?.versions ? { versions: message.versions, versionIndex: message.versionIndex } : {};
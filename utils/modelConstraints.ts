@@ -0,0 +1,45 @@
+import { VeniceModel, VeniceConstraint } from '@/types/venice';
+
+export const getConstraintNumber = (constraint: any): number | undefined => {
+  if (constraint == null) return undefined;
+  if (typeof constraint === 'number') return constraint;
+  if (typeof constraint.default === 'number') return constraint.default;
+  if (typeof constraint.max === 'number') return constraint.max;
+  return undefined;
+};
+
+// A bare number only advertises a default, so it carries no bounds.
+export const getConstraintRange = (constraint?: VeniceConstraint): { min?: number; max?: number } => {
+  if (constraint == null || typeof constraint === 'number') return {};
+  return {
+    min: typeof constraint.min === 'number' ? constraint.min : undefined,
+    max: typeof constraint.max === 'number' ? constraint.max : undefined,
+  };
+};
+
+export const clampToConstraint = (value: number, constraint?: VeniceConstraint): number => {
+  const { min, max } = getConstraintRange(constraint);
+  let next = value;
+  if (min !== undefined) next = Math.max(min, next);
+  if (max !== undefined) next = Math.min(max, next);
+  return next;
+};
+
+// Returns the first constraint advertised under any of the given keys.
+export const findConstraint = (model: VeniceModel | null | undefined, keys: string[]): VeniceConstraint | undefined => {
+  const c = model?.model_spec?.constraints || {};
+  for (const key of keys) {
+    if ((c as any)[key] != null) return (c as any)[key];
+  }
+  return undefined;
+};
+
+export const getModelMaxTokens = (model?: VeniceModel | null): number | undefined => {
+  if (!model) return undefined;
+  const c = model.model_spec?.constraints || {};
+  for (const key of ['max_output_tokens', 'maxOutputTokens', 'max_tokens', 'response_tokens']) {
+    const val = getConstraintNumber((c as any)[key]);
+    if (val && val > 0) return val;
+  }
+  return undefined;
+};
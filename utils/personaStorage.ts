@@ -0,0 +1,123 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { AppSettings } from '@/types/settings';
+import { Persona, PersonaSamplingKey } from '@/types/persona';
+
+const STORAGE_KEY = 'vgpt-personas';
+const PERSONAS_FILE_PATH = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
+  : null;
+
+export const PERSONA_SAMPLING_KEYS: PersonaSamplingKey[] = [
+  'temperature',
+  'topP',
+  'minP',
+  'topK',
+  'repetitionPenalty',
+  'maxTokens',
+];
+
+const isPersona = (value: any): value is Persona =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.systemPrompt === 'string';
+
+const parsePersonas = (raw: string | null): Persona[] => {
+  if (!raw) return [];
+  const parsed = JSON.parse(raw);
+  return Array.isArray(parsed) ? parsed.filter(isPersona) : [];
+};
+
+export async function loadPersonas(): Promise<Persona[]> {
+  try {
+    if (Platform.OS === 'web') {
+      if (typeof localStorage === 'undefined') {
+        return [];
+      }
+
+      return parsePersonas(localStorage.getItem(STORAGE_KEY));
+    }
+
+    if (!PERSONAS_FILE_PATH) {
+      return [];
+    }
+
+    const fileInfo = await FileSystem.getInfoAsync(PERSONAS_FILE_PATH);
+    if (!fileInfo.exists) {
+      return [];
+    }
+
+    return parsePersonas(await FileSystem.readAsStringAsync(PERSONAS_FILE_PATH));
+  } catch (error) {
+    console.warn('Failed to load personas', error);
+    return [];
+  }
+}
+
+export async function persistPersonas(personas: Persona[]): Promise<void> {
+  try {
+    const serialized = JSON.stringify(personas);
+
+    if (Platform.OS === 'web') {
+      if (typeof localStorage === 'undefined') {
+        return;
+      }
+
+      localStorage.setItem(STORAGE_KEY, serialized);
+      return;
+    }
+
+    if (!PERSONAS_FILE_PATH) {
+      return;
+    }
+
+    await FileSystem.writeAsStringAsync(PERSONAS_FILE_PATH, serialized);
+  } catch (error) {
+    console.warn('Failed to persist personas', error);
+  }
+}
+
+export const createPersonaId = (): string =>
+  `persona-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+// The current sampling values, for a persona that should pin them.
+export const pickSampling = (settings: AppSettings): Persona['sampling'] =>
+  Object.fromEntries(PERSONA_SAMPLING_KEYS.map(key => [key, settings[key]]));
+
+// Settings changes to apply when a persona is picked; empty when it pins nothing.
+export const personaSettings = (persona: Persona): Partial<AppSettings> => ({
+  ...(persona.model ? { model: persona.model } : {}),
+  ...persona.sampling,
+});
+
+// What a picked persona changed in the settings, and what those fields held before.
+export interface PersonaOverride {
+  applied: Partial<AppSettings>;
+  saved: Partial<AppSettings>;
+}
+
+/**
+ * Moves the settings from the current persona's overrides to `next`'s (or to
+ * none). Fields the current persona set are put back first, unless the user
+ * has changed them since. Returns the settings changes and the new override.
+ */
+export function swapPersonaSettings(
+  settings: AppSettings,
+  current: PersonaOverride | null,
+  next: Persona | null
+): { updates: Partial<AppSettings>; override: PersonaOverride | null } {
+  const keysOf = (values: Partial<AppSettings>) => Object.keys(values) as (keyof AppSettings)[];
+  const restored: Partial<AppSettings> = current
+    ? Object.fromEntries(
+        keysOf(current.applied)
+          .filter(key => settings[key] === current.applied[key])
+          .map(key => [key, current.saved[key]])
+      )
+    : {};
+  const base = { ...settings, ...restored };
+  const applied = next ? personaSettings(next) : {};
+  const saved: Partial<AppSettings> = Object.fromEntries(keysOf(applied).map(key => [key, base[key]]));
+  return { updates: { ...restored, ...applied }, override: next ? { applied, saved } : null };
+}
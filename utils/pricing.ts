@@ -0,0 +1,36 @@
+import { VeniceModel } from '@/types/venice';
+
+const PER_MILLION = 1_000_000;
+
+// Venice prices are either a bare number or an object keyed by currency.
+export const resolveUsdPrice = (p: unknown): number | undefined => {
+  if (typeof p === 'number') return p;
+  if (p && typeof p === 'object' && 'usd' in p) {
+    const val = (p as any).usd;
+    return typeof val === 'number' ? val : undefined;
+  }
+  return undefined;
+};
+
+const roundCost = (cost: number): number | undefined => (cost > 0 ? Math.round(cost * 1_000_000) / 1_000_000 : undefined);
+
+export function chatCost(model: VeniceModel | undefined | null, inputTokens = 0, outputTokens = 0): number | undefined {
+  const inPrice = resolveUsdPrice(model?.model_spec?.pricing?.input);
+  const outPrice = resolveUsdPrice(model?.model_spec?.pricing?.output);
+  let cost = 0;
+  if (inPrice && inputTokens) cost += (inPrice * inputTokens) / PER_MILLION;
+  if (outPrice && outputTokens) cost += (outPrice * outputTokens) / PER_MILLION;
+  return roundCost(cost);
+}
+
+export const imageCost = (model: VeniceModel | undefined | null, images = 1): number | undefined =>
+  roundCost((resolveUsdPrice(model?.model_spec?.pricing?.generation) ?? 0) * images);
+
+// Edit models may list their price under `inpaint` rather than `generation`.
+export const editCost = (model: VeniceModel | undefined | null): number | undefined => {
+  const pricing = model?.model_spec?.pricing;
+  return roundCost(resolveUsdPrice(pricing?.inpaint) ?? resolveUsdPrice(pricing?.generation) ?? 0);
+};
+
+export const formatUsd = (amount: number): string =>
+  amount >= 1 ? `$${amount.toFixed(2)}` : `$${amount.toFixed(4)}`;
@@ -0,0 +1,138 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { DEFAULT_SETTINGS } from '@/constants/settings';
+import { AppSettings, SettingsProfile } from '@/types/settings';
+import { SETTINGS_VERSION, SettingsIssue, parseStoredSettings } from '@/utils/settingsSchema';
+
+const STORAGE_KEY = 'vgpt-settings-profiles';
+const PROFILES_FILE_PATH = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
+  : null;
+
+// Marks an exported profile file so other JSON isn't mistaken for one.
+const PROFILE_FILE_KIND = 'vgpt-settings-profile';
+
+export interface ProfilesState {
+  profiles: SettingsProfile[];
+  // The profile last switched to; null once none applies.
+  activeId: string | null;
+}
+
+const EMPTY_STATE: ProfilesState = { profiles: [], activeId: null };
+
+// Each profile keeps its settings versioned so they migrate like the main settings file.
+const toStoredProfile = (profile: SettingsProfile) => ({ ...profile, version: SETTINGS_VERSION });
+
+const parseProfiles = (raw: string | null): ProfilesState => {
+  if (!raw) return EMPTY_STATE;
+  const parsed = JSON.parse(raw);
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.profiles)) return EMPTY_STATE;
+
+  const profiles: SettingsProfile[] = parsed.profiles
+    .filter((p: any) => p && typeof p.id === 'string' && typeof p.name === 'string')
+    .map((p: any) => ({
+      id: p.id,
+      name: p.name,
+      settings: parseStoredSettings({ version: p.version ?? 0, settings: p.settings }, DEFAULT_SETTINGS).settings,
+      createdAt: typeof p.createdAt === 'number' ? p.createdAt : Date.now(),
+      updatedAt: typeof p.updatedAt === 'number' ? p.updatedAt : Date.now(),
+    }));
+  const activeId = profiles.some(p => p.id === parsed.activeId) ? parsed.activeId : null;
+  return { profiles, activeId };
+};
+
+export async function loadProfiles(): Promise<ProfilesState> {
+  try {
+    if (Platform.OS === 'web') {
+      if (typeof localStorage === 'undefined') {
+        return EMPTY_STATE;
+      }
+
+      return parseProfiles(localStorage.getItem(STORAGE_KEY));
+    }
+
+    if (!PROFILES_FILE_PATH) {
+      return EMPTY_STATE;
+    }
+
+    const fileInfo = await FileSystem.getInfoAsync(PROFILES_FILE_PATH);
+    if (!fileInfo.exists) {
+      return EMPTY_STATE;
+    }
+
+    return parseProfiles(await FileSystem.readAsStringAsync(PROFILES_FILE_PATH));
+  } catch (error) {
+    console.warn('Failed to load settings profiles', error);
+    return EMPTY_STATE;
+  }
+}
+
+export async function persistProfiles(state: ProfilesState): Promise<void> {
+  try {
+    const serialized = JSON.stringify({ ...state, profiles: state.profiles.map(toStoredProfile) });
+
+    if (Platform.OS === 'web') {
+      if (typeof localStorage === 'undefined') {
+        return;
+      }
+
+      localStorage.setItem(STORAGE_KEY, serialized);
+      return;
+    }
+
+    if (!PROFILES_FILE_PATH) {
+      return;
+    }
+
+    await FileSystem.writeAsStringAsync(PROFILES_FILE_PATH, serialized);
+  } catch (error) {
+    console.warn('Failed to persist settings profiles', error);
+  }
+}
+
+export const createProfile = (name: string, settings: AppSettings): SettingsProfile => {
+  const now = Date.now();
+  return { id: `${now}-${Math.random().toString(36).slice(2, 8)}`, name, settings, createdAt: now, updatedAt: now };
+};
+
+/**
+ * The settings to switch to. The spending cap is a budget rather than a
+ * tuning choice, so it stays as it is on this device.
+ */
+export const applyProfile = (current: AppSettings, profile: SettingsProfile): AppSettings => ({
+  ...profile.settings,
+  spendingCapUsd: current.spendingCapUsd,
+  spendingCapPeriod: current.spendingCapPeriod,
+  spendingCapMode: current.spendingCapMode,
+});
+
+export const serializeProfile = (profile: SettingsProfile): string =>
+  JSON.stringify(
+    { kind: PROFILE_FILE_KIND, name: profile.name, version: SETTINGS_VERSION, settings: profile.settings },
+    null,
+    2
+  );
+
+/**
+ * Reads an exported profile. Fields from another build are migrated and
+ * validated like stored settings; invalid ones fall back to defaults and are
+ * listed in `issues`. Throws when the text isn't a profile file at all.
+ */
+export function parseProfileFile(text: string): { name: string; settings: AppSettings; issues: SettingsIssue[] } {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!parsed || parsed.kind !== PROFILE_FILE_KIND || !parsed.settings || typeof parsed.settings !== 'object') {
+    throw new Error('This is not a vGPT settings profile.');
+  }
+
+  const { settings, issues } = parseStoredSettings(
+    { version: typeof parsed.version === 'number' ? parsed.version : 0, settings: parsed.settings },
+    DEFAULT_SETTINGS
+  );
+  const name = typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name.trim() : 'Imported profile';
+  return { name, settings, issues };
+}
@@ -0,0 +1,85 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { ResponseSchema } from '@/types/chat';
+import { VeniceResponseFormat } from '@/types/venice';
+
+const STORAGE_KEY = 'vgpt-schemas';
+const SCHEMAS_FILE_PATH = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
+  : null;
+
+const isResponseSchema = (value: any): value is ResponseSchema =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  !!value.schema &&
+  typeof value.schema === 'object';
+
+const parseSchemas = (raw: string | null): ResponseSchema[] => {
+  if (!raw) return [];
+  const parsed = JSON.parse(raw);
+  return Array.isArray(parsed) ? parsed.filter(isResponseSchema) : [];
+};
+
+export async function loadSchemas(): Promise<ResponseSchema[]> {
+  try {
+    if (Platform.OS === 'web') {
+      if (typeof localStorage === 'undefined') {
+        return [];
+      }
+
+      return parseSchemas(localStorage.getItem(STORAGE_KEY));
+    }
+
+    if (!SCHEMAS_FILE_PATH) {
+      return [];
+    }
+
+    const fileInfo = await FileSystem.getInfoAsync(SCHEMAS_FILE_PATH);
+    if (!fileInfo.exists) {
+      return [];
+    }
+
+    return parseSchemas(await FileSystem.readAsStringAsync(SCHEMAS_FILE_PATH));
+  } catch (error) {
+    console.warn('Failed to load saved schemas', error);
+    return [];
+  }
+}
+
+export async function persistSchemas(schemas: ResponseSchema[]): Promise<void> {
+  try {
+    const serialized = JSON.stringify(schemas);
+
+    if (Platform.OS === 'web') {
+      if (typeof localStorage === 'undefined') {
+        return;
+      }
+
+      localStorage.setItem(STORAGE_KEY, serialized);
+      return;
+    }
+
+    if (!SCHEMAS_FILE_PATH) {
+      return;
+    }
+
+    await FileSystem.writeAsStringAsync(SCHEMAS_FILE_PATH, serialized);
+  } catch (error) {
+    console.warn('Failed to persist saved schemas', error);
+  }
+}
+
+export const createSchemaId = (): string =>
+  `schema-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+// `response_format` for a schema; the name is reduced to the characters the API accepts.
+export const toResponseFormat = ({ name, schema }: ResponseSchema): VeniceResponseFormat => ({
+  type: 'json_schema',
+  json_schema: {
+    name: name.replace(/[^a-zA-Z0-9_-]+/g, '_').slice(0, 64) || 'response',
+    strict: true,
+    schema,
+  },
+});
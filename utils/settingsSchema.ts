@@ -0,0 +1,177 @@
+import { AppSettings } from '@/types/settings';
+import { MAX_IMAGE_SEED, MAX_IMAGE_VARIANTS } from '@/utils/imageGeneration';
+import { MAX_JOB_CONCURRENCY } from '@/utils/jobQueue';
+
+// Bumped whenever a migration is added below.
+export const SETTINGS_VERSION = 1;
+
+// How settings are stored: the fields plus the schema version they were written with.
+export interface SettingsEnvelope {
+  version: number;
+  settings: Record<string, unknown>;
+}
+
+// A stored field that was dropped or reset to its default while loading.
+export interface SettingsIssue {
+  field: string;
+  problem: string;
+}
+
+const UNKNOWN_FIELD = 'unknown field';
+
+type FieldRule =
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'string' }
+  | { type: 'boolean' }
+  | { type: 'enum'; values: readonly string[] };
+
+// One rule per field; the mapped type makes a new AppSettings field fail to compile until it has one.
+const SETTINGS_RULES: { [K in keyof AppSettings]-?: FieldRule } = {
+  // Ids are only type-checked here; models that no longer exist are replaced once the list loads.
+  model: { type: 'string' },
+  temperature: { type: 'number', min: 0, max: 2 },
+  topP: { type: 'number', min: 0, max: 1 },
+  minP: { type: 'number', min: 0, max: 1 },
+  maxTokens: { type: 'number', min: 1, integer: true },
+  topK: { type: 'number', min: 0, max: 1000, integer: true },
+  repetitionPenalty: { type: 'number', min: 0, max: 2 },
+  webSearch: { type: 'enum', values: ['off', 'auto', 'on'] },
+  webCitations: { type: 'boolean' },
+  includeSearchResults: { type: 'boolean' },
+  includeVeniceSystemPrompt: { type: 'boolean' },
+  stripThinking: { type: 'boolean' },
+  disableThinking: { type: 'boolean' },
+  enableTools: { type: 'boolean' },
+  contextStrategy: { type: 'enum', values: ['trim', 'summarize'] },
+  spendingCapUsd: { type: 'number', min: 0 },
+  spendingCapPeriod: { type: 'enum', values: ['day', 'month'] },
+  spendingCapMode: { type: 'enum', values: ['warn', 'block'] },
+  imageModel: { type: 'string' },
+  imageSteps: { type: 'number', min: 1, max: 150, integer: true },
+  imageWidth: { type: 'number', min: 64, max: 4096, integer: true },
+  imageHeight: { type: 'number', min: 64, max: 4096, integer: true },
+  imageGuidanceScale: { type: 'number', min: 0, max: 50 },
+  imageVariants: { type: 'number', min: 1, max: MAX_IMAGE_VARIANTS, integer: true },
+  imageNegativePrompt: { type: 'string' },
+  imageStylePreset: { type: 'string' },
+  imageSeed: { type: 'number', min: 0, max: MAX_IMAGE_SEED, integer: true },
+  imageSeedLocked: { type: 'boolean' },
+  imageConcurrency: { type: 'number', min: 1, max: MAX_JOB_CONCURRENCY, integer: true },
+};
+
+/**
+ * Upgrades from version `index` to `index + 1`, in order. A field rename goes
+ * here so its stored value carries over instead of being dropped as unknown.
+ */
+const MIGRATIONS: ((settings: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // 0 → 1: the bare object written before the envelope; its fields already match.
+  settings => settings,
+];
+
+const checkField = (rule: FieldRule, value: unknown): string | null => {
+  switch (rule.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `expected a number, got ${JSON.stringify(value)}`;
+      if (rule.integer && !Number.isInteger(value)) return `expected a whole number, got ${value}`;
+      if (rule.min !== undefined && value < rule.min) return `${value} is below the minimum of ${rule.min}`;
+      if (rule.max !== undefined && value > rule.max) return `${value} is above the maximum of ${rule.max}`;
+      return null;
+    case 'string':
+      return typeof value === 'string' ? null : `expected text, got ${JSON.stringify(value)}`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `expected true or false, got ${JSON.stringify(value)}`;
+    case 'enum':
+      return typeof value === 'string' && rule.values.includes(value)
+        ? null
+        : `expected one of ${rule.values.join(', ')}, got ${JSON.stringify(value)}`;
+  }
+};
+
+// Checked by `checkField` before it gets here.
+const assignField = <K extends keyof AppSettings>(settings: AppSettings, field: K, value: unknown) => {
+  settings[field] = value as AppSettings[K];
+};
+
+// Accepts the current envelope or a bare settings object from before it existed.
+export function readEnvelope(raw: unknown): SettingsEnvelope | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const candidate = raw as Record<string, unknown>;
+  if (typeof candidate.version === 'number' && candidate.settings && typeof candidate.settings === 'object') {
+    return { version: candidate.version, settings: candidate.settings as Record<string, unknown> };
+  }
+  return { version: 0, settings: candidate };
+}
+
+// Whether this build can read a payload at `version`, migrating it up if it is older.
+export const isKnownSettingsVersion = (version: number): boolean =>
+  Number.isInteger(version) && version >= 0 && version <= SETTINGS_VERSION;
+
+// Payloads at a version this build doesn't know come back untouched.
+export function migrateSettings(envelope: SettingsEnvelope): Record<string, unknown> {
+  if (!isKnownSettingsVersion(envelope.version)) return envelope.settings;
+  let settings = envelope.settings;
+  for (let version = envelope.version; version < SETTINGS_VERSION; version++) {
+    settings = MIGRATIONS[version](settings);
+  }
+  return settings;
+}
+
+/**
+ * Checks every field against its rule. Missing fields take their default
+ * quietly; invalid or unknown ones are reported, and invalid ones reset to
+ * the default without touching the rest.
+ */
+export function validateSettings(
+  stored: Record<string, unknown>,
+  defaults: AppSettings
+): { settings: AppSettings; issues: SettingsIssue[] } {
+  const settings: AppSettings = { ...defaults };
+  const issues: SettingsIssue[] = [];
+  const fields = Object.keys(SETTINGS_RULES) as (keyof AppSettings)[];
+
+  for (const field of fields) {
+    if (!(field in stored)) continue;
+    const problem = checkField(SETTINGS_RULES[field], stored[field]);
+    if (problem) issues.push({ field, problem });
+    else assignField(settings, field, stored[field]);
+  }
+  for (const field of Object.keys(stored)) {
+    if (!(field in SETTINGS_RULES)) issues.push({ field, problem: UNKNOWN_FIELD });
+  }
+
+  return { settings, issues };
+}
+
+/**
+ * Turns whatever was stored into valid settings. A payload written by a newer
+ * build, or at a version this one can't read, keeps the fields this build
+ * understands and is flagged `newer`, so it isn't overwritten with the older shape.
+ */
+export function parseStoredSettings(
+  raw: unknown,
+  defaults: AppSettings
+): { settings: AppSettings; issues: SettingsIssue[]; upgraded: boolean; newer: boolean } {
+  const envelope = readEnvelope(raw);
+  if (!envelope) {
+    return {
+      settings: defaults,
+      issues: [{ field: '(file)', problem: 'not a settings object' }],
+      upgraded: true,
+      newer: false,
+    };
+  }
+  const { settings, issues } = validateSettings(migrateSettings(envelope), defaults);
+  const newer = !isKnownSettingsVersion(envelope.version);
+  return {
+    settings,
+    // A newer build's extra fields are expected, not problems.
+    issues: newer ? issues.filter(i => i.problem !== UNKNOWN_FIELD) : issues,
+    upgraded: !newer && envelope.version < SETTINGS_VERSION,
+    newer,
+  };
+}
+
+export const toSettingsEnvelope = (settings: AppSettings): SettingsEnvelope => ({
+  version: SETTINGS_VERSION,
+  settings: { ...settings },
+});
@@ -1,62 +1,108 @@
 import { Platform } from 'react-native';
 import * as FileSystem from 'expo-file-system';
+import { DEFAULT_SETTINGS } from '@/constants/settings';
+import { AppSettings } from '@/types/settings';
+import {
+  SettingsIssue,
+  isKnownSettingsVersion,
+  parseStoredSettings,
+  readEnvelope,
+  toSettingsEnvelope,
+} from '@/utils/settingsSchema';
 
 const STORAGE_KEY = 'vgpt-settings';
 const SETTINGS_FILE_PATH = FileSystem.documentDirectory
   ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
   : null;
 
-type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+async function readStoredSettings(): Promise<string | null> {
+  if (Platform.OS === 'web') {
+    return typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
+  }
+
+  if (!SETTINGS_FILE_PATH) {
+    return null;
+  }
 
-export async function loadStoredSettings<T>(defaults: T): Promise<T> {
+  const fileInfo = await FileSystem.getInfoAsync(SETTINGS_FILE_PATH);
+  return fileInfo.exists ? FileSystem.readAsStringAsync(SETTINGS_FILE_PATH) : null;
+}
+
+// Whether the stored settings come from a newer build (or a version this one can't read).
+async function storedByNewerBuild(): Promise<boolean> {
+  const stored = await readStoredSettings();
+  if (!stored) return false;
   try {
-    if (Platform.OS === 'web') {
-      if (typeof localStorage === 'undefined') {
-        return defaults;
-      }
+    const envelope = readEnvelope(JSON.parse(stored));
+    return !!envelope && !isKnownSettingsVersion(envelope.version);
+  } catch {
+    return false;
+  }
+}
 
-      const savedSettings = localStorage.getItem(STORAGE_KEY);
-      if (savedSettings) {
-        const parsed = JSON.parse(savedSettings);
-        if (parsed && typeof parsed === 'object') {
-          return { ...defaults, ...parsed };
-        }
-      }
+let warnedNewer = false;
 
-      return defaults;
+/**
+ * Loads, migrates and validates the stored settings. Fields that fail
+ * validation come back as their defaults and are listed in `issues`; the
+ * repaired settings are written back so the problems are reported once.
+ */
+export async function loadSettingsWithIssues(
+  defaults: AppSettings = DEFAULT_SETTINGS
+): Promise<{ settings: AppSettings; issues: SettingsIssue[] }> {
+  try {
+    const stored = await readStoredSettings();
+    if (!stored) {
+      return { settings: defaults, issues: [] };
     }
 
-    if (!SETTINGS_FILE_PATH) {
-      return defaults;
+    let raw: unknown = null;
+    try {
+      raw = JSON.parse(stored);
+    } catch {
+      // Unreadable JSON is reported below like any other non-object.
     }
 
-    const fileInfo = await FileSystem.getInfoAsync(SETTINGS_FILE_PATH);
-    if (!fileInfo.exists) {
-      return defaults;
+    const { settings, issues, upgraded } = parseStoredSettings(raw, defaults);
+    if (issues.length) {
+      console.warn('Reset invalid stored settings', issues);
     }
-
-    const stored = await FileSystem.readAsStringAsync(SETTINGS_FILE_PATH);
-    const parsed = JSON.parse(stored);
-
-    if (parsed && typeof parsed === 'object') {
-      return { ...defaults, ...parsed };
+    // `persistSettings` leaves a newer build's file alone.
+    if (issues.length || upgraded) {
+      await persistSettings(settings);
     }
-
-    return defaults;
+    return { settings, issues };
   } catch (error) {
     console.warn('Failed to load persisted settings', error);
-    return defaults;
+    return { settings: defaults, issues: [] };
   }
 }
 
-export async function persistSettings<T>(settings: T): Promise<void> {
+export async function loadStoredSettings(defaults: AppSettings = DEFAULT_SETTINGS): Promise<AppSettings> {
+  return (await loadSettingsWithIssues(defaults)).settings;
+}
+
+/**
+ * Saves the settings, unless the stored file was written by a newer build:
+ * rewriting it would drop the fields this build doesn't know, so changes then
+ * last only until the app closes.
+ */
+export async function persistSettings(settings: AppSettings): Promise<void> {
   try {
+    if (await storedByNewerBuild()) {
+      if (!warnedNewer) console.warn('Stored settings come from a newer version of the app; not overwriting them');
+      warnedNewer = true;
+      return;
+    }
+
+    const serialized = JSON.stringify(toSettingsEnvelope(settings));
+
     if (Platform.OS === 'web') {
       if (typeof localStorage === 'undefined') {
         return;
       }
 
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+      localStorage.setItem(STORAGE_KEY, serialized);
       return;
     }
 
@@ -64,7 +110,7 @@ export async function persistSettings<T>(settings: T): Promise<void> {
       return;
     }
 
-    await FileSystem.writeAsStringAsync(SETTINGS_FILE_PATH, JSON.stringify(settings));
+    await FileSystem.writeAsStringAsync(SETTINGS_FILE_PATH, serialized);
   } catch (error) {
     console.warn('Failed to persist settings', error);
   }
@@ -0,0 +1,91 @@
+// One dispatched server-sent event. `event` is 'message' unless the stream named it.
+export interface SseEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Incremental parser for a `text/event-stream` body, following the
+ * EventSource rules: lines may end in \n, \r\n or \r, `:` lines are comments,
+ * consecutive `data:` lines join with a newline, and a blank line dispatches.
+ * Feed it decoded text as it arrives; it returns the events completed so far.
+ */
+export function createSseParser() {
+  let buffer = '';
+  // A \r that ended the last chunk may be the first half of a \r\n.
+  let pendingCr = false;
+  let event = '';
+  let data: string[] = [];
+  let id: string | undefined;
+  let hasData = false;
+
+  const dispatch = (events: SseEvent[]) => {
+    if (hasData) events.push({ event: event || 'message', data: data.join('\n'), ...(id !== undefined ? { id } : {}) });
+    event = '';
+    data = [];
+    hasData = false;
+  };
+
+  const readLine = (line: string, events: SseEvent[]) => {
+    if (line === '') {
+      dispatch(events);
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon < 0 ? line : line.slice(0, colon);
+    let value = colon < 0 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        data.push(value);
+        hasData = true;
+        break;
+      case 'event':
+        event = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) id = value;
+        break;
+      // `retry` only matters to EventSource's own reconnects; other fields are ignored.
+    }
+  };
+
+  return {
+    push(text: string): SseEvent[] {
+      const events: SseEvent[] = [];
+      if (pendingCr && text.startsWith('\n')) text = text.slice(1);
+      pendingCr = false;
+      buffer += text;
+
+      const pattern = /\r\n|\r|\n/g;
+      let start = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(buffer))) {
+        // Wait for the next chunk before treating a trailing \r as a line end on its own.
+        if (match[0] === '\r' && match.index === buffer.length - 1) {
+          pendingCr = true;
+          readLine(buffer.slice(start, match.index), events);
+          start = buffer.length;
+          break;
+        }
+        readLine(buffer.slice(start, match.index), events);
+        start = match.index + match[0].length;
+      }
+      buffer = buffer.slice(start);
+      return events;
+    },
+
+    // The stream ended: a final event without its blank line still counts.
+    flush(): SseEvent[] {
+      const events: SseEvent[] = [];
+      if (buffer) readLine(buffer, events);
+      buffer = '';
+      dispatch(events);
+      return events;
+    },
+  };
+}
@@ -0,0 +1,174 @@
+import { Alert, Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { AppSettings } from '@/types/settings';
+import { SpendingCapPeriod, UsageEntry, UsageTotals } from '@/types/usage';
+import { formatUsd } from '@/utils/pricing';
+
+const STORAGE_KEY = 'vgpt-usage';
+const USAGE_FILE_PATH = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
+  : null;
+
+// Oldest entries fall off past this, keeping the file small; totals cover what remains.
+const MAX_ENTRIES = 5000;
+
+const isUsageEntry = (value: any): value is UsageEntry =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof value.id === 'string' &&
+  typeof value.model === 'string' &&
+  typeof value.createdAt === 'number';
+
+const parseEntries = (raw: string | null): UsageEntry[] => {
+  if (!raw) return [];
+  const parsed = JSON.parse(raw);
+  return Array.isArray(parsed) ? parsed.filter(isUsageEntry) : [];
+};
+
+async function readEntries(): Promise<UsageEntry[]> {
+  if (Platform.OS === 'web') {
+    return typeof localStorage === 'undefined' ? [] : parseEntries(localStorage.getItem(STORAGE_KEY));
+  }
+  if (!USAGE_FILE_PATH) return [];
+  const fileInfo = await FileSystem.getInfoAsync(USAGE_FILE_PATH);
+  if (!fileInfo.exists) return [];
+  return parseEntries(await FileSystem.readAsStringAsync(USAGE_FILE_PATH));
+}
+
+async function writeEntries(entries: UsageEntry[]): Promise<void> {
+  const serialized = JSON.stringify(entries.slice(-MAX_ENTRIES));
+  if (Platform.OS === 'web') {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, serialized);
+    return;
+  }
+  if (USAGE_FILE_PATH) await FileSystem.writeAsStringAsync(USAGE_FILE_PATH, serialized);
+}
+
+let ledgerWrite: Promise<void> = Promise.resolve();
+
+// Read-modify-write of the ledger, chained so calls finishing together can't drop each other's entries.
+function updateLedger(update: (entries: UsageEntry[]) => UsageEntry[]): Promise<void> {
+  const next = ledgerWrite.then(async () => writeEntries(update(await readEntries())));
+  ledgerWrite = next.catch(() => {});
+  return next;
+}
+
+export async function loadUsage(): Promise<UsageEntry[]> {
+  try {
+    await ledgerWrite;
+    return await readEntries();
+  } catch (error) {
+    console.warn('Failed to load usage ledger', error);
+    return [];
+  }
+}
+
+export async function recordUsage(entry: Omit<UsageEntry, 'id' | 'createdAt'>): Promise<void> {
+  try {
+    const createdAt = Date.now();
+    const id = `${createdAt}-${Math.random().toString(36).slice(2, 6)}`;
+    await updateLedger(entries => [...entries, { ...entry, id, createdAt }]);
+  } catch (error) {
+    console.warn('Failed to record usage', error);
+  }
+}
+
+export async function clearUsage(): Promise<void> {
+  try {
+    await updateLedger(() => []);
+  } catch (error) {
+    console.warn('Failed to clear usage ledger', error);
+  }
+}
+
+// ── totals ─────────────────────────────────────────────────────────────────────
+
+const emptyTotals = (): UsageTotals => ({ costUsd: 0, inputTokens: 0, outputTokens: 0, images: 0, calls: 0 });
+
+const addEntry = (totals: UsageTotals, e: UsageEntry): UsageTotals => ({
+  costUsd: totals.costUsd + (e.costUsd ?? 0),
+  inputTokens: totals.inputTokens + (e.inputTokens ?? 0),
+  outputTokens: totals.outputTokens + (e.outputTokens ?? 0),
+  images: totals.images + (e.images ?? 0),
+  calls: totals.calls + 1,
+});
+
+export const sumUsage = (entries: UsageEntry[]): UsageTotals => entries.reduce(addEntry, emptyTotals());
+
+// Totals per group key, largest spend first.
+export function groupUsage(entries: UsageEntry[], keyOf: (e: UsageEntry) => string | undefined) {
+  const groups = new Map<string, UsageTotals>();
+  for (const e of entries) {
+    const key = keyOf(e);
+    if (key === undefined) continue;
+    groups.set(key, addEntry(groups.get(key) ?? emptyTotals(), e));
+  }
+  return [...groups.entries()].map(([key, totals]) => ({ key, totals }));
+}
+
+// Local calendar day, e.g. 2024-05-31.
+export const dayKey = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const periodStart = (period: SpendingCapPeriod, now = Date.now()): number => {
+  const d = new Date(now);
+  return period === 'day'
+    ? new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime()
+    : new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+};
+
+// ── spending cap ───────────────────────────────────────────────────────────────
+
+export interface CapCheck {
+  status: 'ok' | 'warn' | 'block';
+  spent: number;
+  limit: number;
+}
+
+/**
+ * Whether a call expected to cost `estimate` stays under the cap for the
+ * current period. A cap of 0 is off.
+ */
+export function checkSpendingCap(
+  entries: UsageEntry[],
+  settings: Pick<AppSettings, 'spendingCapUsd' | 'spendingCapPeriod' | 'spendingCapMode'>,
+  estimate = 0
+): CapCheck {
+  const limit = settings.spendingCapUsd;
+  const since = periodStart(settings.spendingCapPeriod);
+  const spent = sumUsage(entries.filter(e => e.createdAt >= since)).costUsd;
+  if (!limit || spent + estimate <= limit) return { status: 'ok', spent, limit };
+  return { status: settings.spendingCapMode, spent, limit };
+}
+
+/**
+ * Checks the cap before a call expected to cost `estimate`, asking the user in
+ * warn mode. Resolves to the reason the call was held back, or null to go ahead.
+ */
+export async function confirmSpend(
+  settings: Pick<AppSettings, 'spendingCapUsd' | 'spendingCapPeriod' | 'spendingCapMode'>,
+  estimate = 0
+): Promise<string | null> {
+  if (!settings.spendingCapUsd) return null;
+
+  const check = checkSpendingCap(await loadUsage(), settings, estimate);
+  if (check.status === 'ok') return null;
+
+  const period = settings.spendingCapPeriod === 'day' ? 'daily' : 'monthly';
+  const reason = `This would take you past your ${formatUsd(check.limit)} ${period} cap (${formatUsd(check.spent)} spent so far).`;
+  if (check.status === 'block') return reason;
+
+  const proceed = await new Promise<boolean>(resolve => {
+    if (Platform.OS === 'web') {
+      resolve(typeof window === 'undefined' || window.confirm(`${reason} Continue anyway?`));
+      return;
+    }
+    Alert.alert('Spending cap', `${reason} Continue anyway?`, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { text: 'Continue', onPress: () => resolve(true) },
+    ], { cancelable: true, onDismiss: () => resolve(false) });
+  });
+  return proceed ? null : reason;
+}
@@ -0,0 +1,267 @@
+import {
+  VENICE_BALANCE_ENDPOINT,
+  VENICE_CHAT_COMPLETIONS_ENDPOINT,
+  VENICE_IMAGE_BACKGROUND_REMOVE_ENDPOINT,
+  VENICE_IMAGE_EDIT_ENDPOINT,
+  VENICE_IMAGE_GENERATIONS_ENDPOINT,
+  VENICE_IMAGE_MULTI_EDIT_ENDPOINT,
+  VENICE_IMAGE_STYLES_ENDPOINT,
+  VENICE_IMAGE_UPSCALE_ENDPOINT,
+  VENICE_MODELS_ENDPOINT,
+} from '@/constants/venice';
+import {
+  VeniceBalance,
+  VeniceChatChunk,
+  VeniceChatCompletion,
+  VeniceChatDelta,
+  VeniceChatRequest,
+  VeniceErrorBody,
+  VeniceImageBackgroundRemoveRequest,
+  VeniceImageEditRequest,
+  VeniceImageFileResponse,
+  VeniceImageGenerateRequest,
+  VeniceImageGenerateResponse,
+  VeniceImageMultiEditRequest,
+  VeniceImageStylesResponse,
+  VeniceImageUpscaleRequest,
+  VeniceModel,
+  VeniceModelsResponse,
+  VeniceModelType,
+} from '@/types/venice';
+import { veniceHeaders } from '@/utils/apiKeyStorage';
+import { createSseParser } from '@/utils/sseParser';
+
+export class VeniceApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly data?: VeniceErrorBody;
+  // Seconds, from the Retry-After header on rate-limited responses.
+  readonly retryAfter?: number;
+
+  constructor(message: string, status: number, data?: VeniceErrorBody, retryAfter?: number) {
+    super(message);
+    this.name = 'VeniceApiError';
+    this.status = status;
+    this.data = data;
+    this.retryAfter = retryAfter;
+    this.code = data?.code ?? (typeof data?.error === 'object' ? data.error?.code : undefined);
+  }
+}
+
+// The event stream broke off before `[DONE]`; whatever arrived until then is all there is.
+export class VeniceStreamError extends Error {
+  constructor(message = 'The connection dropped before the reply finished.') {
+    super(message);
+    this.name = 'VeniceStreamError';
+  }
+}
+
+// Mirrors errMessage() in public/core.js: Venice nests its message in a few different places.
+const extractErrorMessage = (data?: VeniceErrorBody | null): string => {
+  if (!data) return '';
+  if (typeof data.error === 'string') {
+    try {
+      return extractErrorMessage(JSON.parse(data.error)) || data.error;
+    } catch {
+      return data.error;
+    }
+  }
+  if (data.error?.message) return data.error.message;
+  if (Array.isArray(data.details) && typeof data.details[0]?.message === 'string') return data.details[0].message;
+  if (typeof data.message === 'string') return data.message;
+  return typeof data.details === 'string' ? data.details : '';
+};
+
+const readErrorBody = async (response: Response): Promise<VeniceErrorBody | undefined> => {
+  const text = await response.text().catch(() => '');
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { error: text };
+  }
+};
+
+export const toVeniceApiError = async (response: Response): Promise<VeniceApiError> => {
+  const data = await readErrorBody(response);
+  const retryAfter = Number(response.headers.get('retry-after'));
+  return new VeniceApiError(
+    extractErrorMessage(data) || `Request failed (${response.status})`,
+    response.status,
+    data,
+    Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined
+  );
+};
+
+export interface VeniceClientOptions {
+  // Prefix for the /api routes; point it at a mock server to exercise the client.
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  getHeaders?: (json: boolean) => Promise<Record<string, string>>;
+}
+
+export interface VeniceRequestOptions {
+  signal?: AbortSignal;
+}
+
+function* chunkToDeltas(chunk: VeniceChatChunk): Generator<VeniceChatDelta> {
+  const citations = chunk.venice_parameters?.web_search_citations;
+  if (citations?.length) yield { type: 'citations', citations };
+  const delta = chunk.choices?.[0]?.delta;
+  if (delta?.reasoning) yield { type: 'reasoning', text: delta.reasoning };
+  if (delta?.content) yield { type: 'content', text: delta.content };
+  for (const fragment of delta?.tool_calls ?? []) yield { type: 'tool_call', fragment };
+  if (chunk.usage) yield { type: 'usage', usage: chunk.usage };
+}
+
+export function createVeniceClient(options: VeniceClientOptions = {}) {
+  const baseUrl = options.baseUrl ?? '';
+  const doFetch = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  const getHeaders = options.getHeaders ?? veniceHeaders;
+
+  const request = async (path: string, init: RequestInit & { json?: unknown } = {}): Promise<Response> => {
+    const { json, ...rest } = init;
+    const response = await doFetch(`${baseUrl}${path}`, {
+      ...rest,
+      headers: { ...(await getHeaders(json !== undefined)), ...(rest.headers as Record<string, string>) },
+      body: json !== undefined ? JSON.stringify(json) : rest.body,
+    });
+    if (!response.ok) throw await toVeniceApiError(response);
+    return response;
+  };
+
+  const requestJson = async <T>(path: string, init: RequestInit & { json?: unknown } = {}): Promise<T> => {
+    const response = await request(path, init);
+    return (await response.json()) as T;
+  };
+
+  return {
+    async listModels(type?: VeniceModelType, { signal }: VeniceRequestOptions = {}): Promise<VeniceModel[]> {
+      const path = type ? `${VENICE_MODELS_ENDPOINT}?type=${encodeURIComponent(type)}` : VENICE_MODELS_ENDPOINT;
+      const data = await requestJson<VeniceModelsResponse>(path, { signal });
+      return Array.isArray(data?.data) ? data.data : [];
+    },
+
+    chat(body: VeniceChatRequest, { signal }: VeniceRequestOptions = {}): Promise<VeniceChatCompletion> {
+      return requestJson<VeniceChatCompletion>(VENICE_CHAT_COMPLETIONS_ENDPOINT, {
+        method: 'POST',
+        json: { ...body, stream: false },
+        signal,
+      });
+    },
+
+    /**
+     * Streams a chat completion as typed deltas. Falls back to unpacking a
+     * plain JSON completion when the server answers without an event stream.
+     */
+    async *streamChat(body: VeniceChatRequest, { signal }: VeniceRequestOptions = {}): AsyncGenerator<VeniceChatDelta> {
+      const response = await request(VENICE_CHAT_COMPLETIONS_ENDPOINT, {
+        method: 'POST',
+        json: { ...body, stream: true },
+        signal,
+      });
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentType.includes('text/event-stream') || !response.body) {
+        const data = (await response.json()) as VeniceChatCompletion;
+        const message = data?.choices?.[0]?.message;
+        const citations = data?.venice_parameters?.web_search_citations;
+        if (citations?.length) yield { type: 'citations', citations };
+        if (message?.reasoning) yield { type: 'reasoning', text: message.reasoning };
+        if (message?.content) yield { type: 'content', text: message.content };
+        for (const [index, call] of (message?.tool_calls ?? []).entries()) {
+          yield { type: 'tool_call', fragment: { index, ...call } };
+        }
+        if (data?.usage) yield { type: 'usage', usage: data.usage };
+        return;
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const parser = createSseParser();
+
+      try {
+        while (true) {
+          let read: ReadableStreamReadResult<Uint8Array>;
+          try {
+            read = await reader.read();
+          } catch (e) {
+            if (signal?.aborted) throw e;
+            throw new VeniceStreamError();
+          }
+
+          const events = read.done ? parser.flush() : parser.push(decoder.decode(read.value, { stream: true }));
+          for (const event of events) {
+            if (event.data.trim() === '[DONE]') return;
+
+            let chunk: (VeniceChatChunk & VeniceErrorBody) | null = null;
+            try {
+              chunk = JSON.parse(event.data);
+            } catch {
+              // A malformed chunk doesn't end the reply, but the caller hears it was lost; an `error` event always ends it.
+              if (event.event !== 'error') {
+                yield { type: 'skipped', data: event.data };
+                continue;
+              }
+            }
+
+            if (event.event === 'error' || chunk?.error) {
+              throw new VeniceApiError(
+                extractErrorMessage(chunk) || event.data || 'The stream reported an error.',
+                500,
+                chunk ?? { error: event.data }
+              );
+            }
+            if (chunk) yield* chunkToDeltas(chunk);
+          }
+
+          // The proxy ends the response quietly when Venice drops mid-stream.
+          if (read.done) throw new VeniceStreamError();
+        }
+      } finally {
+        // Also runs when the consumer stops early, so the connection isn't left open.
+        reader.cancel().catch(() => {});
+      }
+    },
+
+    generateImage(body: VeniceImageGenerateRequest, { signal }: VeniceRequestOptions = {}): Promise<VeniceImageGenerateResponse> {
+      return requestJson<VeniceImageGenerateResponse>(VENICE_IMAGE_GENERATIONS_ENDPOINT, {
+        method: 'POST',
+        json: body,
+        signal,
+      });
+    },
+
+    async listImageStyles({ signal }: VeniceRequestOptions = {}): Promise<string[]> {
+      const data = await requestJson<VeniceImageStylesResponse>(VENICE_IMAGE_STYLES_ENDPOINT, { signal });
+      return Array.isArray(data?.data) ? data.data.filter(s => typeof s === 'string') : [];
+    },
+
+    editImage(body: VeniceImageEditRequest, { signal }: VeniceRequestOptions = {}): Promise<VeniceImageFileResponse> {
+      return requestJson<VeniceImageFileResponse>(VENICE_IMAGE_EDIT_ENDPOINT, { method: 'POST', json: body, signal });
+    },
+
+    multiEditImage(body: VeniceImageMultiEditRequest, { signal }: VeniceRequestOptions = {}): Promise<VeniceImageFileResponse> {
+      return requestJson<VeniceImageFileResponse>(VENICE_IMAGE_MULTI_EDIT_ENDPOINT, { method: 'POST', json: body, signal });
+    },
+
+    upscaleImage(body: VeniceImageUpscaleRequest, { signal }: VeniceRequestOptions = {}): Promise<VeniceImageFileResponse> {
+      return requestJson<VeniceImageFileResponse>(VENICE_IMAGE_UPSCALE_ENDPOINT, { method: 'POST', json: body, signal });
+    },
+
+    removeBackground(
+      body: VeniceImageBackgroundRemoveRequest,
+      { signal }: VeniceRequestOptions = {}
+    ): Promise<VeniceImageFileResponse> {
+      return requestJson<VeniceImageFileResponse>(VENICE_IMAGE_BACKGROUND_REMOVE_ENDPOINT, { method: 'POST', json: body, signal });
+    },
+
+    getBalance({ signal }: VeniceRequestOptions = {}): Promise<VeniceBalance> {
+      return requestJson<VeniceBalance>(VENICE_BALANCE_ENDPOINT, { signal });
+    },
+  };
+}
+
+export type VeniceClient = ReturnType<typeof createVeniceClient>;
+
+export const veniceClient = createVeniceClient();
@@ -0,0 +1,99 @@
+import { ChatErrorKind, ChatErrorFix, MessageError } from '@/types/chat';
+import { VeniceApiError, VeniceStreamError } from '@/utils/veniceClient';
+
+const ERROR_TITLES: Record<ChatErrorKind, string> = {
+  no_api_key: 'API key required',
+  unauthorized: 'API key rejected',
+  rate_limit: 'Rate limited',
+  insufficient_balance: 'Insufficient balance',
+  context_length: 'Conversation too long',
+  model_unavailable: 'Model unavailable',
+  invalid_request: 'Request rejected',
+  server: 'Venice is having trouble',
+  network: 'Connection failed',
+  connection_lost: 'Connection lost',
+  spending_cap: 'Spending cap reached',
+  unknown: 'Something went wrong',
+};
+
+const ERROR_FIXES: Partial<Record<ChatErrorKind, ChatErrorFix>> = {
+  no_api_key: 'add_key',
+  unauthorized: 'add_key',
+  insufficient_balance: 'review_usage',
+  context_length: 'shorten_history',
+  model_unavailable: 'switch_model',
+  spending_cap: 'review_usage',
+};
+
+export const ERROR_FIX_LABELS: Record<ChatErrorFix, string> = {
+  add_key: 'Add API key',
+  switch_model: 'Switch model',
+  shorten_history: 'Shorten history',
+  review_usage: 'Review usage',
+};
+
+// For errors read back from a file, which may come from another build.
+export const isChatErrorKind = (value: unknown): value is ChatErrorKind =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ERROR_TITLES, value);
+
+export const isChatErrorFix = (value: unknown): value is ChatErrorFix =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ERROR_FIX_LABELS, value);
+
+const CONTEXT_LENGTH_PATTERN = /context (length|window)|maximum context|too many tokens|prompt is too long|token limit/i;
+const BALANCE_PATTERN = /insufficient|balance|credits?|payment required/i;
+const MODEL_PATTERN = /model/i;
+
+const classifyApiError = (error: VeniceApiError): ChatErrorKind => {
+  const { status, code, message } = error;
+  if (code === 'NO_API_KEY') return 'no_api_key';
+  if (status === 401 || status === 403) return 'unauthorized';
+  if (status === 429) return 'rate_limit';
+  if (status === 402 || (status < 500 && BALANCE_PATTERN.test(message))) return 'insufficient_balance';
+  if (status === 413 || CONTEXT_LENGTH_PATTERN.test(message)) return 'context_length';
+  if (status === 404 || (status === 503 && MODEL_PATTERN.test(message))) return 'model_unavailable';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+};
+
+/**
+ * Turns anything thrown by a Venice request into the message-level error shown
+ * inline on the failed reply. Aborts are not errors and should be handled first.
+ */
+export function toMessageError(error: unknown): MessageError {
+  let kind: ChatErrorKind = 'unknown';
+  let message = error instanceof Error ? error.message : String(error ?? '');
+  let status: number | undefined;
+  let retryAfter: number | undefined;
+
+  if (error instanceof VeniceApiError) {
+    kind = classifyApiError(error);
+    status = error.status;
+    retryAfter = error.retryAfter;
+  } else if (error instanceof VeniceStreamError) {
+    // The partial reply stays on screen above this; Retry asks again from the start.
+    kind = 'connection_lost';
+    message = 'The connection dropped before the reply finished. Retry?';
+  } else if (error instanceof TypeError) {
+    // fetch rejects with a TypeError when the network itself fails.
+    kind = 'network';
+    message = 'Could not reach the vGPT server. Check your connection and try again.';
+  }
+
+  return {
+    kind,
+    title: ERROR_TITLES[kind],
+    message: message || ERROR_TITLES[kind],
+    status,
+    retryAfter,
+    fix: ERROR_FIXES[kind],
+  };
+}
+
+// A request the app itself held back because it would go over the spending cap.
+export const spendingCapError = (message: string): MessageError => ({
+  kind: 'spending_cap',
+  title: ERROR_TITLES.spending_cap,
+  message,
+  fix: ERROR_FIXES.spending_cap,
+});